@@ -1,5 +1,5 @@
 import browser from 'webextension-polyfill';
-import { validateEvent, finalizeEvent, getPublicKey, nip44 } from 'nostr-tools';
+import { validateEvent, finalizeEvent, getPublicKey, nip44, type VerifiedEvent } from 'nostr-tools';
 import { nip04 } from 'nostr-tools';
 
 import * as Storage from './storage';
@@ -11,24 +11,57 @@ import {
   type PinMessage,
   type PinMessageResponse,
   type PromptParams,
+  type PromptDecision,
   type PromptResponse,
   type AuditDisposition,
   type SecurityPreferences,
+  type RemoteSignerConfig,
+  type ProfileChangedMessage,
+  type SignerInfo,
+  type AntiSpamLimits,
+  type AntiSpamHostState,
   PermissionDuration,
+  ConfigurationKeys,
+  NostrErrorCode,
   getKindRisk,
   getKindName,
+  getHighestKindRisk,
   ALL_CAPABILITIES,
+  MAX_BATCH_EVENTS,
 } from './types';
 import {
   convertHexToUint8Array,
   openPopupWindow,
-  derivePublicKeyFromPrivateKey
+  derivePublicKeyFromPrivateKey,
+  getRelayAuthUrl,
+  encryptNcryptsec,
+  parsePrivateKeyInput,
+  NostrRequestError,
+  errorResponse,
+  toErrorResponse
 } from './common';
 import { LRUCache } from './LRUCache';
 import PromptManager from './PromptManager';
-import { getCachedPin, setCachedPin, clearCachedPin } from './pinCache';
-import { decryptPrivateKey, encryptPrivateKey } from './pinEncryption';
+import { getCachedPin, setCachedPin, clearCachedPin, getDerivedKeys, SHARED_PIN_SCOPE } from './pinCache';
+import {
+  decryptPrivateKey,
+  encryptPrivateKey,
+  encryptWithKeyMaterial,
+  decryptWithKeyMaterial
+} from './pinEncryption';
 import { clearUint8Array, clearStringReference } from './memoryUtils';
+import { connectRemoteSigner, callRemoteSigner } from './remoteSigner';
+import { findMatchingRule } from './policyRules';
+import { restoreBackup, validateBackup } from './backup';
+import {
+  type RpcMethod,
+  type RpcParams,
+  type RpcResult,
+  type RpcResponse,
+  getMalformedRpcCode,
+  isRpcMethod,
+  validateRpcParams
+} from './rpc';
 import {
   logRequest, buildSummary, buildAuditExtra, getEntries, getEntriesByHost,
   getSuppressedCount, clearSuppressedCount, clearLog,
@@ -38,7 +71,14 @@ import {
 
 const openPromptMap: Record<
   string,
-  { id: string; windowId?: number; resolve: Function; reject: Function }
+  {
+    id: string;
+    windowId?: number;
+    resolve: Function;
+    reject: Function;
+    relayUrl?: string;
+    profilePubKey?: string;
+  }
 > = {};
 
 // Gate to prevent multiple popup windows from opening concurrently.
@@ -48,37 +88,61 @@ let pendingWindowPromise: Promise<browser.Windows.Window | browser.Tabs.Tab> | n
 
 const pinPromptMap: Record<
   string,
-  { id: string; windowId?: number; resolve: Function; reject: Function; mode: string }
+  { id: string; windowId?: number; resolve: Function; reject: Function; mode: string; profilePubKey?: string }
 > = {};
 
 //#endregion Prompt & PIN Maps -----------------------------------------------
 
 //#region Anti-Spam Protection -----------------------------------------------
 
-const RATE_LIMIT_MAX = 10;
-const RATE_LIMIT_WINDOW_MS = 5000;
-const PROMPT_QUEUE_CAP = 25;
-const REJECTION_COOLDOWN_MS = 30000;
-
+// Limits come from the security preferences, with per-host overrides.
+// Rejection cooldowns are persisted; rate-limit windows are short and kept in memory.
 const requestTimestamps: Record<string, number[]> = {};
-const rejectionCooldowns: Record<string, number> = {};
 
-function checkRateLimit(host: string): 'cooldown' | 'rate-limited' | null {
+async function checkRateLimit(host: string, limits: AntiSpamLimits): Promise<'cooldown' | 'rate-limited' | null> {
   const now = Date.now();
-  if (rejectionCooldowns[host] && now < rejectionCooldowns[host]) return 'cooldown';
+  if ((await Storage.readRejectionCooldowns())[host]) return 'cooldown';
   if (!requestTimestamps[host]) requestTimestamps[host] = [];
-  requestTimestamps[host] = requestTimestamps[host].filter(ts => now - ts < RATE_LIMIT_WINDOW_MS);
-  if (requestTimestamps[host].length >= RATE_LIMIT_MAX) return 'rate-limited';
+  requestTimestamps[host] = requestTimestamps[host].filter(ts => now - ts < limits.rateLimitWindowMs);
+  if (requestTimestamps[host].length >= limits.rateLimitMax) return 'rate-limited';
   requestTimestamps[host].push(now);
   return null;
 }
 
-function isPromptQueueFull(): boolean {
-  return Object.keys(openPromptMap).length >= PROMPT_QUEUE_CAP;
+function isPromptQueueFull(limits: AntiSpamLimits): boolean {
+  return Object.keys(openPromptMap).length >= limits.promptQueueCap;
+}
+
+async function setRejectionCooldown(host: string): Promise<void> {
+  const { rejectionCooldownMs } = await Storage.getAntiSpamLimits(host);
+  if (rejectionCooldownMs > 0) {
+    await Storage.setRejectionCooldown(host, Date.now() + rejectionCooldownMs);
+  }
+}
+
+/**
+ * Lists hosts that are rate-limited, near their limit or cooling down.
+ */
+async function getAntiSpamState(): Promise<AntiSpamHostState[]> {
+  const cooldowns = await Storage.readRejectionCooldowns();
+  const hosts = new Set([...Object.keys(requestTimestamps), ...Object.keys(cooldowns)]);
+  const now = Date.now();
+  const state: AntiSpamHostState[] = [];
+  for (const host of hosts) {
+    const limits = await Storage.getAntiSpamLimits(host);
+    const recentRequests = (requestTimestamps[host] || []).filter(ts => now - ts < limits.rateLimitWindowMs).length;
+    if (recentRequests === 0 && !cooldowns[host]) continue;
+    state.push({ host, recentRequests, rateLimitMax: limits.rateLimitMax, cooldownUntil: cooldowns[host] ?? null });
+  }
+  return state.sort((a, b) => a.host.localeCompare(b.host));
 }
 
-function setRejectionCooldown(host: string): void {
-  rejectionCooldowns[host] = Date.now() + REJECTION_COOLDOWN_MS;
+/**
+ * Clears a host's rate-limit window and rejection cooldown.
+ */
+async function resetAntiSpamState(host: string): Promise<void> {
+  delete requestTimestamps[host];
+  await Storage.setRejectionCooldown(host, null);
 }
 
 //#endregion Anti-Spam Protection --------------------------------------------
@@ -86,7 +150,6 @@ function setRejectionCooldown(host: string): void {
 //#region Deduplication ------------------------------------------------------
 
 const pendingSignRequests: Map<string, Promise<ContentScriptMessageResponse>> = new Map();
-const DEDUP_TTL_MS = 30000;
 
 function requestFingerprint(type: string, params: PromptParams): string | null {
   if (type === 'signEvent' && params.event) {
@@ -118,145 +181,253 @@ function updateBadge() {
 
 //#endregion Badge -----------------------------------------------------------
 
+//#region Debug Logging ------------------------------------------------------
+
+/**
+ * Log to the background console, only when debug logging is turned on
+ */
+async function debugLog(message: string): Promise<void> {
+  const { debugLogging } = await Storage.readSecurityPreferences();
+  if (debugLogging) console.log(`[Ribbit Signer] ${message}`);
+}
+
+//#endregion Debug Logging ---------------------------------------------------
+
 //#region Capability Mapping -------------------------------------------------
 
 /** Map request type string to Capability */
 function typeToCapability(type: string): Capability | null {
   if (ALL_CAPABILITIES.includes(type as Capability)) return type as Capability;
+  // A batch is granted, prompted and ruled on as signEvent
+  if (type === 'signEvents') return 'signEvent';
   return null;
 }
 
 /** Request types that are read-only and low-risk — skip anti-spam AND auto-approve */
 const AUTO_APPROVE_TYPES = new Set<string>(['getPublicKey', 'getRelays']);
 
+/** Optional window.nostr APIs, reported by getInfo */
+const OPTIONAL_APIS = ['nip04', 'nip44', 'signEvents', 'requestPermissions', 'getPermissions', 'session', 'accountsChanged'];
+
 //#endregion Capability Mapping ----------------------------------------------
 
+//#region Sender Authorization -----------------------------------------------
+
+/** Where a runtime message came from */
+type SenderClass = 'extension-page' | 'content-script' | 'external';
+
+/** NIP-07 requests, answered through the permission system */
+const PROVIDER_TYPES = new Set<string>([...ALL_CAPABILITIES, 'signEvents', 'requestPermissions', 'getPermissions', 'getInfo']);
+
+/** Session token messages, scoped to the sender's own origin */
+const ORIGIN_SESSION_TYPES = new Set<string>(['getSessionToken', 'setSessionToken', 'removeSessionToken', 'getClientId']);
+
+/** Message types each sender class may send. Extension pages may send any type */
+const ALLOWED_TYPES: Record<Exclude<SenderClass, 'extension-page'>, Set<string>> = {
+  'content-script': new Set([...PROVIDER_TYPES, ...ORIGIN_SESSION_TYPES]),
+  external: PROVIDER_TYPES,
+};
+
+/**
+ * Classify the sender of a runtime.onMessage message.
+ * Anything that is not one of our own pages is treated as a content script, the least trusted internal sender.
+ */
+function classifySender(sender: browser.Runtime.MessageSender): SenderClass {
+  return sender.url?.startsWith(browser.runtime.getURL('')) ? 'extension-page' : 'content-script';
+}
+
+/**
+ * Check a message type against the sender's allowlist, auditing denied attempts.
+ */
+function isSenderAllowed(senderClass: SenderClass, type: string, host: string): boolean {
+  if (senderClass === 'extension-page' || ALLOWED_TYPES[senderClass].has(type)) return true;
+  console.warn(`[Ribbit Signer] Blocked "${type}" from ${senderClass} ${host}`);
+  logRequest(type || 'unknown', host, 'unauthorized', `Blocked ${type || 'untyped'} message from ${senderClass}`, true);
+  updateBadge();
+  return false;
+}
+
+/**
+ * The host a sender speaks for: its page's host, never the one claimed in the message.
+ */
+function getSenderHost(sender: browser.Runtime.MessageSender): string {
+  try {
+    return new URL(sender.url ?? '').host;
+  } catch {
+    return '';
+  }
+}
+
+//#endregion Sender Authorization --------------------------------------------
+
 //#region Message Router -----------------------------------------------------
 
-browser.runtime.onMessage.addListener(async (message: any, sender: any) => {
+/** Who is calling a handler */
+type RpcContext = {
+  /** The host the request is made for: the sender's own host for content scripts */
+  host: string;
+  sender: browser.Runtime.MessageSender;
+};
+
+type RpcHandlers = {
+  [M in RpcMethod]: (params: RpcParams<M>, context: RpcContext) => RpcResult<M> | Promise<RpcResult<M>>;
+};
+
+/** NIP-07 requests go through the permission system */
+const providerHandler =
+  (type: string) =>
+  (params: object, { host }: RpcContext) =>
+    handleContentScriptMessage({ type, params: params as PromptParams, host });
+
+/** Messages from the PIN window */
+const pinHandler =
+  (type: PinMessage['type']) =>
+  (params: Omit<PinMessage, 'type'>, { sender }: RpcContext) =>
+    handlePinMessage({ ...params, type }, sender);
+
+const rpcHandlers: RpcHandlers = {
+  getPublicKey: providerHandler('getPublicKey'),
+  getRelays: providerHandler('getRelays'),
+  signEvent: providerHandler('signEvent'),
+  signEvents: providerHandler('signEvents'),
+  'nip04.encrypt': providerHandler('nip04.encrypt'),
+  'nip04.decrypt': providerHandler('nip04.decrypt'),
+  'nip44.encrypt': providerHandler('nip44.encrypt'),
+  'nip44.decrypt': providerHandler('nip44.decrypt'),
+  requestPermissions: providerHandler('requestPermissions'),
+  getPermissions: providerHandler('getPermissions'),
+  getInfo: providerHandler('getInfo'),
+
+  // Session token management (origin-scoped)
+  getSessionToken: async ({ relayUrl }, { host }) => {
+    const entry = await Storage.getSessionToken(relayUrl, host);
+    return entry ? { token: entry.token, expiresAt: entry.expiresAt, pubkey: entry.pubkey, clientId: entry.clientId } : null;
+  },
+  setSessionToken: async ({ relayUrl, token, expiresAt, pubkey, clientId }, { host }) => {
+    await Storage.setSessionToken({
+      relayUrl,
+      token,
+      expiresAt,
+      pubkey,
+      clientId: clientId || (await Storage.getOrCreateClientId(host)),
+      origin: host,
+    });
+  },
+  removeSessionToken: ({ relayUrl }, { host }) => Storage.removeSessionToken(relayUrl, host),
+  getClientId: async (_params, { host }) => ({ clientId: await Storage.getOrCreateClientId(host) }),
+  getSessionTokens: () => Storage.readSessionTokens(),
+
   // Activity log queries from popup
-  if (message.type === 'getActivityLog') {
-    return { entries: getEntries(), suppressedCount: getSuppressedCount() };
-  }
-  if (message.type === 'getActivityLogByHost') {
-    return { entries: getEntriesByHost(message.host) };
-  }
-  if (message.type === 'clearActivityLog') {
+  getActivityLog: () => ({ entries: getEntries(), suppressedCount: getSuppressedCount() }),
+  getActivityLogByHost: ({ host }) => ({ entries: getEntriesByHost(host) }),
+  clearActivityLog: () => {
     clearLog();
     updateBadge();
-    return { success: true };
-  }
-  if (message.type === 'clearSuppressedCount') {
+  },
+  clearSuppressedCount: () => {
     clearSuppressedCount();
     updateBadge();
-    return { success: true };
-  }
+  },
 
   // Site permission queries from popup/options
-  if (message.type === 'getSitePermissions') {
-    return { permissions: await Storage.readSitePermissions() };
-  }
-  if (message.type === 'revokeGrant') {
-    await Storage.revokeGrant(message.host, message.capability);
-    return { success: true };
-  }
-  if (message.type === 'revokeAllGrants') {
-    await Storage.revokeAllGrants(message.host);
-    return { success: true };
-  }
-  if (message.type === 'removeSite') {
-    await Storage.removeSite(message.host);
-    return { success: true };
-  }
+  getSitePermissions: async () => ({ permissions: await Storage.readSitePermissions() }),
+  revokeGrant: ({ host, capability, profilePubKey }) => Storage.revokeGrant(host, capability, profilePubKey),
+  revokeAllGrants: ({ host, profilePubKey }) => Storage.revokeAllGrants(host, profilePubKey),
+  removeSite: ({ host }) => Storage.removeSite(host),
+  setSiteProfile: ({ host, profilePubKey }) => updateSiteProfile(host, profilePubKey || null),
 
-  // Security preferences
-  if (message.type === 'getSecurityPreferences') {
-    return await Storage.readSecurityPreferences();
-  }
-  if (message.type === 'updateSecurityPreference') {
-    await Storage.updateSecurityPreference(message.key, message.value);
-    return { success: true };
-  }
+  // Anti-spam state from options
+  getAntiSpamState: async () => ({ hosts: await getAntiSpamState() }),
+  resetAntiSpamState: ({ host }) => resetAntiSpamState(host),
 
-  // Session token management (origin-scoped)
-  if (message.type === 'getSessionToken') {
-    const origin = message.host || '';
-    const entry = await Storage.getSessionToken(message.relayUrl, origin);
-    return entry ? { token: entry.token, expiresAt: entry.expiresAt, pubkey: entry.pubkey, clientId: entry.clientId } : null;
-  }
-  if (message.type === 'setSessionToken') {
-    const origin = message.host || '';
-    const clientId = await Storage.getOrCreateClientId(origin);
-    await Storage.setSessionToken({
-      relayUrl: message.relayUrl,
-      token: message.token,
-      expiresAt: message.expiresAt,
-      pubkey: message.pubkey,
-      clientId: message.clientId || clientId,
-      origin,
-    });
-    return { success: true };
-  }
-  if (message.type === 'removeSessionToken') {
-    const origin = message.host || '';
-    await Storage.removeSessionToken(message.relayUrl, origin);
-    return { success: true };
-  }
-  if (message.type === 'getSessionTokens') {
-    return await Storage.readSessionTokens();
-  }
-  if (message.type === 'getClientId') {
-    const origin = message.host || '';
-    const clientId = await Storage.getOrCreateClientId(origin);
-    return { clientId };
-  }
+  // Security preferences
+  getSecurityPreferences: () => Storage.readSecurityPreferences(),
+  updateSecurityPreference: ({ key, value }) => Storage.updateSecurityPreference(key, value as never),
 
   // Relay auth grant management
-  if (message.type === 'getRelayAuthGrants') {
-    return await Storage.readRelayAuthGrants();
-  }
-  if (message.type === 'removeRelayAuthGrant') {
-    await Storage.removeRelayAuthGrant(message.relayUrl);
-    return { success: true };
-  }
+  getRelayAuthGrants: () => Storage.readRelayAuthGrants(),
+  removeRelayAuthGrant: ({ relayUrl }) => Storage.removeRelayAuthGrant(relayUrl),
+
+  // PIN
+  setupPin: pinHandler('setupPin'),
+  verifyPin: pinHandler('verifyPin'),
+  disablePin: pinHandler('disablePin'),
+  unlockWithKey: pinHandler('unlockWithKey'),
+  unlockWithPasskey: pinHandler('unlockWithPasskey'),
+  openPinPrompt: async ({ mode }) => {
+    await promptPin(mode);
+  },
+  getCachedPin: async () => ({ pin: await getCachedPin() }),
+  // Forget cached PINs and derived secrets now
+  lockNow: () => lockSigner('manual'),
+
+  // Keys and profiles
+  encryptPrivateKey: handleEncryptPrivateKey,
+  exportNcryptsec: handleExportNcryptsec,
+  setProfilePin: handleSetProfilePin,
+  clearProfilePin: handleClearProfilePin,
+  registerPasskey: handleRegisterPasskey,
+  removePasskey: () => Storage.writePasskeyUnlock(null),
+  connectRemoteSigner: async ({ bunkerUri }) => {
+    const { pubKey, config } = await connectRemoteSigner(bunkerUri);
+    return { pubKey, remoteSigner: config };
+  },
+
+  // Backup
+  restoreBackup: handleRestoreBackup,
+
+  // Not awaited: the prompt window may close before its reply arrives
+  promptResponse: (response, { sender }) => {
+    handlePromptMessage(response, sender);
+  },
+};
 
-  // PIN messages
-  if (message.type === 'setupPin' || message.type === 'verifyPin' || message.type === 'disablePin') {
-    return handlePinMessage(message as PinMessage, sender);
+/**
+ * Checks a message and runs its handler
+ * Nothing reaches a handler unless the sender may send it and its params match the schema.
+ */
+async function dispatchRpc(
+  message: any,
+  senderClass: SenderClass,
+  host: string,
+  sender: browser.Runtime.MessageSender
+): Promise<RpcResponse> {
+  const type = message?.type;
+  if (!isSenderAllowed(senderClass, type, host)) {
+    return { ok: false, error: { message: `[Ribbit Signer] "${type}" is not allowed from this context` } };
   }
-  if (message.type === 'openPinPrompt') {
-    const mode = message.mode as 'setup' | 'unlock' | 'disable';
-    if (mode && ['setup', 'unlock', 'disable'].includes(mode)) {
-      await promptPin(mode);
-      return { success: true };
-    }
-    return { success: false, error: 'Invalid PIN mode' };
+  if (!isRpcMethod(type)) {
+    return { ok: false, error: { message: `[Ribbit Signer] Unknown message type "${type}"` } };
   }
-
-  // Encrypt private key
-  if (message.type === 'encryptPrivateKey') {
-    return handleEncryptPrivateKey(message);
+  const params = message.params ?? {};
+  const problem = validateRpcParams(type, params);
+  if (problem) {
+    console.warn(`[Ribbit Signer] Rejected malformed "${type}" message: ${problem}`);
+    return {
+      ok: false,
+      error: { message: `[Ribbit Signer] Malformed "${type}" request: ${problem}`, code: getMalformedRpcCode(type) },
+    };
   }
 
-  // Get cached PIN
-  if (message.type === 'getCachedPin') {
-    const pin = await getCachedPin();
-    return { success: true, pin };
+  try {
+    const handler = rpcHandlers[type] as (params: unknown, context: RpcContext) => unknown;
+    const result = await handler(params, { host, sender });
+    return { ok: true, result: (result ?? null) as RpcResult<RpcMethod> };
+  } catch (error: any) {
+    console.error(`[Ribbit Signer] "${type}" failed:`, error);
+    const code = error instanceof NostrRequestError ? error.code : undefined;
+    return { ok: false, error: { message: error?.message || `"${type}" failed`, code } };
   }
+}
 
-  // Prompt response
-  let { prompt } = message as PromptResponse;
-  if (prompt) {
-    handlePromptMessage(message as PromptResponse, sender);
-  } else {
-    return handleContentScriptMessage(message as ContentMessageArgs);
-  }
+browser.runtime.onMessage.addListener((message: any, sender: browser.Runtime.MessageSender) => {
+  return dispatchRpc(message, classifySender(sender), getSenderHost(sender), sender);
 });
 
-browser.runtime.onMessageExternal.addListener(async (message: any, sender: any) => {
-  const { type, params } = message as ContentMessageArgs;
-  let extensionId = new URL(sender.url ?? '').host;
-  return handleContentScriptMessage({ type, params, host: extensionId });
+// Other extensions get the provider result itself, as before the RPC envelope existed
+browser.runtime.onMessageExternal.addListener(async (message: any, sender: browser.Runtime.MessageSender) => {
+  const response = await dispatchRpc(message, 'external', getSenderHost(sender), sender);
+  return 'error' in response ? { error: response.error } : response.result;
 });
 
 //#endregion Message Router --------------------------------------------------
@@ -273,12 +444,18 @@ browser.runtime.onStartup.addListener(async () => {
   await Storage.purgeExpiredSessionTokens();
   // Migrate old permissions if they exist
   await Storage.migrateOldPermissions();
+  await Storage.migrateSitePermissionProfiles();
+  await Storage.migrateRelayUrls();
+  await Storage.migrateEncryptedPrivateKey();
 });
 
 browser.runtime.onInstalled.addListener(async () => {
   console.debug('Extension installed/updated. Clearing stale prompts.');
   await PromptManager.clear();
   await Storage.migrateOldPermissions();
+  await Storage.migrateSitePermissionProfiles();
+  await Storage.migrateRelayUrls();
+  await Storage.migrateEncryptedPrivateKey();
 });
 
 browser.windows.onRemoved.addListener((_windowId: number) => {
@@ -289,7 +466,6 @@ browser.windows.onRemoved.addListener((_windowId: number) => {
       await handlePromptMessage(
         {
           id: openPrompt.id,
-          prompt: true,
           decision: { action: 'reject', capabilities: [], duration: PermissionDuration.ONCE, remember: false },
           host: null,
         },
@@ -307,71 +483,186 @@ browser.windows.onRemoved.addListener((_windowId: number) => {
   }
 });
 
+// Auto-lock when the last browser window closes
+browser.windows.onRemoved.addListener(async () => {
+  const { lockOnAllWindowsClosed } = await Storage.readSecurityPreferences();
+  if (!lockOnAllWindowsClosed) return;
+  const windows = await browser.windows.getAll();
+  if (windows.length === 0) lockSigner('all windows closed');
+});
+
+// Auto-lock on system idle or screen lock
+browser.idle?.onStateChanged.addListener(async state => {
+  const { lockOnIdleMinutes, lockOnScreenLock } = await Storage.readSecurityPreferences();
+  if (state === 'locked' && lockOnScreenLock) lockSigner('screen locked');
+  if (state === 'idle' && lockOnIdleMinutes > 0) lockSigner('system idle');
+});
+
+// Keep the idle detection interval in line with the preferences
+applyIdleDetectionInterval();
+browser.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === 'local' && changes[ConfigurationKeys.SECURITY_PREFERENCES]) {
+    applyIdleDetectionInterval();
+  }
+});
+
+// Tell open tabs when the active profile changes, whoever changed it (popup, options, profile deletion)
+browser.storage.onChanged.addListener(async (changes, areaName) => {
+  const change = changes[ConfigurationKeys.ACTIVE_PUBLIC_KEY];
+  if (areaName !== 'local' || !change || change.oldValue === change.newValue) return;
+
+  // Hosts bound to a profile keep using it
+  const perms = await Storage.readSitePermissions();
+  const excludedHosts = Object.values(perms)
+    .filter(site => site.boundProfilePubKey)
+    .map(site => site.host);
+  await broadcastProfileChanged({ type: 'profileChanged', excludedHosts });
+});
+
 //#endregion Lifecycle -------------------------------------------------------
 
+//#region Profile Change Broadcast -------------------------------------------
+
+/**
+ * Send a profile change notice to the content script of every open tab.
+ * The notice carries no public key — pages that want it call getPublicKey() again.
+ */
+async function broadcastProfileChanged(message: ProfileChangedMessage): Promise<void> {
+  const tabs = await browser.tabs.query({});
+  for (const tab of tabs) {
+    if (tab.id === undefined) continue;
+    // Tabs without our content script (e.g. about: pages) reject — ignore them
+    browser.tabs.sendMessage(tab.id, message).catch(() => {});
+  }
+}
+
+/**
+ * Bind or unbind a host and notify its tabs if the profile it uses changed.
+ */
+async function updateSiteProfile(host: string, profilePubKey: string | null): Promise<void> {
+  const before = await Storage.getProfilePublicKeyForHost(host);
+  await Storage.setSiteProfile(host, profilePubKey);
+  const after = await Storage.getProfilePublicKeyForHost(host);
+  if (before !== after) {
+    await broadcastProfileChanged({ type: 'profileChanged', hosts: [host] });
+  }
+}
+
+//#endregion Profile Change Broadcast ----------------------------------------
+
 //#region Permission Checking ------------------------------------------------
 
+/** Outcome of checking a request against rules and grants */
+type GrantCheck = {
+  authorized: boolean;
+  rejected?: boolean;
+  disposition?: AuditDisposition;
+  ruleName?: string;
+  /** Authorized by a one-time grant, which the caller consumes once the request goes ahead */
+  onceGrant?: boolean;
+};
+
 /**
  * Check if a host has permission for a capability.
- * Returns the grant if authorized, or null if a prompt is needed.
+ * Policy rules are evaluated first, then relay auth grants and per-host grants.
+ * Returns whether the request is authorized, or rejected outright by a rule; otherwise a prompt is needed.
+ * Nothing is consumed here.
  */
 async function checkExistingGrant(
   host: string,
   capability: Capability,
   params: PromptParams,
   secPrefs: SecurityPreferences
-): Promise<{ authorized: boolean; disposition?: AuditDisposition }> {
+): Promise<GrantCheck> {
   const eventKind = params.event?.kind;
+  const isCritical = secPrefs.alwaysPromptCritical && capability === 'signEvent' &&
+    eventKind !== undefined && getKindRisk(eventKind) === 'critical';
+
+  // User-defined policy rules — first match wins
+  const rule = findMatchingRule(await Storage.readPolicyRules(), {
+    host,
+    capability,
+    kind: eventKind,
+    contentLength: params.event ? (params.event.content ?? '').length : undefined,
+  });
+  if (rule) {
+    if (rule.action === 'reject') {
+      return { authorized: false, rejected: true, disposition: 'policy-rejected', ruleName: rule.name };
+    }
+    // An approve rule never overrides "always prompt for critical kinds"
+    if (rule.action === 'prompt' || isCritical) {
+      return { authorized: false, ruleName: rule.name };
+    }
+    return { authorized: true, disposition: 'policy-approved', ruleName: rule.name };
+  }
 
   // Per-relay auth: auto-approve kind:22242 if we have a grant for the relay URL
-  if (capability === 'signEvent' && eventKind === 22242) {
-    const relayTag = params.event?.tags?.find((t: string[]) => t[0] === 'relay');
-    if (relayTag && relayTag[1]) {
-      const grant = await Storage.hasRelayAuthGrant(relayTag[1]);
-      if (grant) {
-        return { authorized: true, disposition: 'relay-auth' };
-      }
+  const relayUrl = capability === 'signEvent' ? getRelayAuthUrl(params.event) : null;
+  if (relayUrl) {
+    const grant = await Storage.hasRelayAuthGrant(relayUrl);
+    if (grant) {
+      return { authorized: true, disposition: 'relay-auth' };
     }
   }
 
   // Always prompt for critical-risk kinds if preference is set
-  if (secPrefs.alwaysPromptCritical && capability === 'signEvent' && eventKind !== undefined) {
-    const risk = getKindRisk(eventKind);
-    if (risk === 'critical') {
-      return { authorized: false };
-    }
+  if (isCritical) {
+    return { authorized: false };
   }
 
   // Check for an active grant
-  const grant = await Storage.hasActiveGrant(host, capability, eventKind);
+  const grant = await Storage.hasActiveGrant(host, capability, params.event);
   if (grant) {
-    // Consume one-time grants
-    if (grant.duration === PermissionDuration.ONCE) {
-      await Storage.consumeOnceGrant(host, capability);
-    }
-    return { authorized: true, disposition: 'auto-approved' };
+    return { authorized: true, disposition: 'auto-approved', onceGrant: grant.duration === PermissionDuration.ONCE };
   }
 
   return { authorized: false };
 }
 
 /**
- * Prompt the user for permission. Returns true if granted.
+ * Check every event of a signEvents batch.
+ * The batch is rejected if a policy rule rejects any event, and authorized only if every event is.
+ */
+async function checkBatchGrant(
+  host: string,
+  params: PromptParams,
+  secPrefs: SecurityPreferences
+): Promise<GrantCheck> {
+  const checks: GrantCheck[] = [];
+  for (const event of params.events) {
+    checks.push(await checkExistingGrant(host, 'signEvent', { ...params, event }, secPrefs));
+  }
+  const blocking = checks.find(check => check.rejected) ?? checks.find(check => !check.authorized);
+  return blocking ?? { ...checks[0], onceGrant: checks.some(check => check.onceGrant) };
+}
+
+/**
+ * Prompt the user for permission.
+ * @param profilePubKey - The active profile; remembered grants are scoped to it
+ * @returns The user's decision if they approved, null if they rejected
  */
 async function promptForPermission(
   host: string,
   capability: Capability,
-  params: PromptParams
-): Promise<boolean> {
+  params: PromptParams,
+  profilePubKey?: string
+): Promise<PromptDecision | null> {
   // Get site info for the prompt UI
   const siteInfo = await Storage.getSitePermission(host);
-  const activeCapabilities = siteInfo ? await Storage.getActiveCapabilities(host) : [];
+  const activeCapabilities = siteInfo && profilePubKey
+    ? await Storage.getActiveCapabilities(host, profilePubKey) : [];
 
   const eventKind = params.event?.kind;
-  const riskTier = capability === 'signEvent' && eventKind !== undefined
+  let riskTier = capability === 'signEvent' && eventKind !== undefined
     ? getKindRisk(eventKind) : undefined;
-  const eventKindName = capability === 'signEvent' && eventKind !== undefined
+  let eventKindName = capability === 'signEvent' && eventKind !== undefined
     ? getKindName(eventKind) : undefined;
+  if (params.events) {
+    riskTier = getHighestKindRisk(params.events.map(event => event.kind));
+    eventKindName = `${params.events.length} events`;
+  }
+  // Kept on our side so a "trust this relay" decision can only apply to the relay being signed for
+  const relayUrl = capability === 'signEvent' ? getRelayAuthUrl(params.event) ?? undefined : undefined;
 
   const id = Math.random().toString().slice(4);
 
@@ -409,13 +700,14 @@ async function promptForPermission(
       // Clear the gate once the window is known.
       pendingWindowPromise = null;
 
-      openPromptMap[id] = { id, windowId: win.id, resolve, reject };
+      openPromptMap[id] = { id, windowId: win.id, resolve, reject, relayUrl, profilePubKey };
       PromptManager.add({
         id,
         windowId: win.id,
         host,
         capability,
         params,
+        profilePubKey,
         siteInfo: siteInfo ? {
           first_seen: siteInfo.first_seen,
           request_count: siteInfo.request_count,
@@ -424,6 +716,7 @@ async function promptForPermission(
         } : undefined,
         riskTier,
         eventKindName,
+        profileBound: !!profilePubKey && siteInfo?.boundProfilePubKey === profilePubKey,
       });
     }).catch(err => {
       pendingWindowPromise = null;
@@ -444,13 +737,23 @@ async function handleContentScriptMessage({
 }: ContentMessageArgs): Promise<ContentScriptMessageResponse> {
   const summary = buildSummary(type, params);
   const auditExtra = buildAuditExtra(type, params);
-  // Attach active profile pubkey for per-npub audit grouping
-  const activePub = await Storage.getActivePublicKey();
+  // Attach the pubkey of the profile this host uses for per-npub audit grouping
+  const activePub = await Storage.getProfilePublicKeyForHost(host);
   if (activePub) auditExtra.profilePubKey = activePub;
 
   // Touch the site record (track first_seen, request_count, last_active)
   await Storage.touchSite(host);
 
+  // The host's own grants are not secret to it
+  if (type === 'getPermissions') {
+    logRequest(type, host, 'auto-approved', summary, true, auditExtra);
+    return activePub ? [...new Set(await Storage.getActiveCapabilities(host, activePub))] : [];
+  }
+  if (type === 'getInfo') {
+    logRequest(type, host, 'auto-approved', summary, true, auditExtra);
+    return getSignerInfo(host, activePub);
+  }
+
   // Auto-approve read-only types (getPublicKey, getRelays) — no prompt needed
   if (AUTO_APPROVE_TYPES.has(type)) {
     logRequest(type, host, 'auto-approved', summary, true, auditExtra);
@@ -458,16 +761,23 @@ async function handleContentScriptMessage({
   }
 
   // Anti-spam for non-auto-approve types
-  const rateLimitResult = checkRateLimit(host);
+  const antiSpamLimits = await Storage.getAntiSpamLimits(host);
+  const rateLimitResult = await checkRateLimit(host, antiSpamLimits);
   if (rateLimitResult) {
     logRequest(type, host, rateLimitResult, summary, true, auditExtra);
     updateBadge();
-    return { error: { message: `[Ribbit Signer] Request blocked: too many requests from ${host}. Try again shortly.` } };
+    return rateLimitResult === 'cooldown'
+      ? errorResponse(NostrErrorCode.COOLDOWN, `[Ribbit Signer] Request blocked: ${host} is paused after a rejected request. Try again shortly.`)
+      : errorResponse(NostrErrorCode.RATE_LIMITED, `[Ribbit Signer] Request blocked: too many requests from ${host}. Try again shortly.`);
   }
-  if (isPromptQueueFull()) {
+  if (isPromptQueueFull(antiSpamLimits)) {
     logRequest(type, host, 'queue-full', summary, true, auditExtra);
     updateBadge();
-    return { error: { message: `[Ribbit Signer] Request blocked: too many pending prompts. Please respond to existing prompts first.` } };
+    return errorResponse(NostrErrorCode.QUEUE_FULL, '[Ribbit Signer] Request blocked: too many pending prompts. Please respond to existing prompts first.');
+  }
+
+  if (type === 'requestPermissions') {
+    return processPermissionRequest({ type, params, host });
   }
 
   // Dedup
@@ -483,7 +793,7 @@ async function handleContentScriptMessage({
     pendingSignRequests.set(fp, resultPromise);
     const cleanup = () => { pendingSignRequests.delete(fp); };
     resultPromise.then(cleanup, cleanup);
-    setTimeout(cleanup, DEDUP_TTL_MS);
+    setTimeout(cleanup, antiSpamLimits.dedupTtlMs);
     return resultPromise;
   }
 
@@ -497,9 +807,11 @@ async function processRequest({
 }: ContentMessageArgs): Promise<ContentScriptMessageResponse> {
   const summary = buildSummary(type, params);
   const auditExtra = buildAuditExtra(type, params);
-  // Attach active profile pubkey for per-npub audit grouping
-  const activePubProc = await Storage.getActivePublicKey();
-  if (activePubProc) auditExtra.profilePubKey = activePubProc;
+  // Hosts bound to a profile use it instead of the active one
+  const boundPubKey = await Storage.getSiteProfile(host);
+  const profilePubKey = boundPubKey ?? (await Storage.getActivePublicKey());
+  // Attach the profile pubkey for per-npub audit grouping
+  if (profilePubKey) auditExtra.profilePubKey = profilePubKey;
   const capability = typeToCapability(type);
 
   if (!capability) {
@@ -507,6 +819,19 @@ async function processRequest({
     return { error: { message: `Unknown request type "${type}"` } };
   }
 
+  if (type === 'signEvents') {
+    const { events } = params;
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      events.length > MAX_BATCH_EVENTS ||
+      events.some(event => typeof event?.kind !== 'number')
+    ) {
+      logRequest(type, host, 'error', 'Invalid event batch', false, auditExtra);
+      return errorResponse(NostrErrorCode.INVALID_EVENT, `signEvents takes an array of 1 to ${MAX_BATCH_EVENTS} events`);
+    }
+  }
+
   // Read-only types are auto-approved — skip permission checks entirely
   if (AUTO_APPROVE_TYPES.has(type)) {
     // Fall through to execution below
@@ -515,9 +840,28 @@ async function processRequest({
     const secPrefs = await Storage.readSecurityPreferences();
 
     // Check existing grants
-    const grantCheck = await checkExistingGrant(host, capability, params, secPrefs);
+    const grantCheck = type === 'signEvents'
+      ? await checkBatchGrant(host, params, secPrefs)
+      : await checkExistingGrant(host, capability, params, secPrefs);
+    if (grantCheck.ruleName) auditExtra.ruleName = grantCheck.ruleName;
+
+    // Site quotas: once one is used up, auto-approvals fall back to a prompt
+    const eventKinds = type === 'signEvents'
+      ? params.events.map(event => event.kind)
+      : params.event ? [params.event.kind] : [];
+    if (grantCheck.authorized && (await Storage.findExhaustedQuota(host, capability, eventKinds))) {
+      grantCheck.authorized = false;
+      auditExtra.quotaExceeded = true;
+    }
 
-    if (grantCheck.authorized) {
+    if (grantCheck.rejected) {
+      logRequest(type, host, grantCheck.disposition || 'rejected', summary, true, auditExtra);
+      updateBadge();
+      return errorResponse(NostrErrorCode.USER_REJECTED, `[Ribbit Signer] Request blocked by policy rule "${grantCheck.ruleName}"`);
+    } else if (grantCheck.authorized) {
+      // One-time grants are spent only now, when the whole request goes ahead
+      if (grantCheck.onceGrant) await Storage.consumeOnceGrant(host, capability);
+      await Storage.recordQuotaUsage(host, capability, eventKinds);
       // Log the auto-approval
       if (grantCheck.disposition) {
         logRequest(type, host, grantCheck.disposition, summary, true, auditExtra);
@@ -526,12 +870,12 @@ async function processRequest({
     } else {
       // Need to prompt
       try {
-        const allowed = await promptForPermission(host, capability, params);
+        const allowed = await promptForPermission(host, capability, params, profilePubKey ?? undefined);
         if (!allowed) {
           await Storage.incrementDenied(host);
-          setRejectionCooldown(host);
+          await setRejectionCooldown(host);
           logRequest(type, host, 'rejected', summary, false, auditExtra);
-          return { error: { message: `Permission denied by user` } };
+          return errorResponse(NostrErrorCode.USER_REJECTED, 'Permission denied by user');
         }
         logRequest(type, host, 'approved', summary, false, auditExtra);
       } catch (error: any) {
@@ -542,10 +886,25 @@ async function processRequest({
     }
   }
 
+  // Profiles backed by a remote signer have no local key — forward the request
+  const profile = profilePubKey ? await Storage.getProfile(profilePubKey) : undefined;
+  if (profilePubKey && profile?.remoteSigner) {
+    return processRemoteRequest({ type, params, host }, profilePubKey, profile.remoteSigner);
+  }
+
   // Get decrypted private key
-  let privateKey = await getDecryptedPrivateKey();
+  let privateKey: string | null;
+  try {
+    privateKey = await getDecryptedPrivateKey(boundPubKey ?? undefined);
+  } catch (error: any) {
+    return errorResponse(NostrErrorCode.LOCKED, error?.message || 'Could not unlock the private key');
+  }
   if (!privateKey) {
-    return { error: { message: 'No private key found' } };
+    // A key that exists but stays encrypted means the PIN prompt was dismissed
+    const locked = !!profile?.privateKey && ((await Storage.isPinEnabled()) || !!profile.ownPin);
+    return locked
+      ? errorResponse(NostrErrorCode.LOCKED, 'The signer is locked: no PIN was entered')
+      : errorResponse(NostrErrorCode.NO_KEY, 'No private key found');
   }
 
   const activePubKey = derivePublicKeyFromPrivateKey(privateKey);
@@ -559,30 +918,37 @@ async function processRequest({
         result = activePubKey;
         break;
       case 'getRelays':
-        result = (await Storage.readActiveRelays()) || {};
+        result = (await Storage.getProfile(activePubKey))?.relays || {};
         break;
       case 'signEvent': {
         if (!params.event) {
-          result = { error: { message: 'Empty event' } };
+          result = errorResponse(NostrErrorCode.INVALID_EVENT, 'Empty event');
           break;
         }
         if (params.event?.pubkey && params.event.pubkey !== activePubKey) {
-          throw new Error(`Public key mismatch: event pubkey doesn't match active profile.`);
+          throw new NostrRequestError(NostrErrorCode.PUBKEY_MISMATCH, `Public key mismatch: event pubkey doesn't match the signing profile.`);
         }
 
-        // For kind:22242 (relay auth), inject a client tag for client-bound session tokens.
-        // This ensures the relay binds the session token to this specific client origin.
-        if (params.event.kind === 22242 && host) {
-          const clientId = await Storage.getOrCreateClientId(host);
-          const tags = params.event.tags || [];
-          // Only add if not already present
-          if (!tags.some((t: string[]) => t[0] === 'client')) {
-            params.event.tags = [...tags, ['client', clientId]];
-          }
-        }
+        await injectClientTag(params, host);
 
         const event = finalizeEvent(params.event, sk);
-        result = validateEvent(event) ? event : { error: { message: 'Invalid event' } };
+        result = validateEvent(event) ? event : errorResponse(NostrErrorCode.INVALID_EVENT, 'Invalid event');
+        break;
+      }
+      case 'signEvents': {
+        const signed: VerifiedEvent[] = [];
+        for (const event of params.events) {
+          if (event.pubkey && event.pubkey !== activePubKey) {
+            throw new NostrRequestError(NostrErrorCode.PUBKEY_MISMATCH, `Public key mismatch: event pubkey doesn't match the signing profile.`);
+          }
+          await injectClientTag({ ...params, event }, host);
+          const signedEvent = finalizeEvent(event, sk);
+          if (!validateEvent(signedEvent)) {
+            throw new NostrRequestError(NostrErrorCode.INVALID_EVENT, `Invalid event at index ${signed.length}`);
+          }
+          signed.push(signedEvent);
+        }
+        result = signed;
         break;
       }
       case 'nip04.encrypt':
@@ -607,7 +973,7 @@ async function processRequest({
     }
   } catch (error: any) {
     logRequest(type, host, 'error', summary, false, auditExtra);
-    return { error: { message: error?.message, stack: error?.stack } };
+    return toErrorResponse(error);
   } finally {
     clearUint8Array(sk);
   }
@@ -615,6 +981,174 @@ async function processRequest({
   return result;
 }
 
+/**
+ * Ask once for several capabilities up front and store the approved ones as grants.
+ * Resolves with the grants the host now holds for the requested capabilities — empty if denied.
+ */
+async function processPermissionRequest({
+  type,
+  params,
+  host
+}: ContentMessageArgs): Promise<ContentScriptMessageResponse> {
+  const summary = buildSummary(type, params);
+  const auditExtra = buildAuditExtra(type, params);
+  const profilePubKey = await Storage.getProfilePublicKeyForHost(host);
+  if (profilePubKey) auditExtra.profilePubKey = profilePubKey;
+
+  const request = params.permissions;
+  if (
+    !request ||
+    !Array.isArray(request.capabilities) ||
+    request.capabilities.length === 0 ||
+    request.capabilities.some(cap => !ALL_CAPABILITIES.includes(cap)) ||
+    (request.kinds !== undefined && (!Array.isArray(request.kinds) || !request.kinds.every(Number.isInteger))) ||
+    (request.duration !== undefined &&
+      (request.duration === PermissionDuration.ONCE || !Object.values(PermissionDuration).includes(request.duration)))
+  ) {
+    logRequest(type, host, 'error', 'Invalid permission request', false, auditExtra);
+    return { error: { message: 'requestPermissions takes { capabilities, kinds?, duration? } with known capabilities' } };
+  }
+  if (!profilePubKey) {
+    return errorResponse(NostrErrorCode.NO_KEY, 'No profile to grant permissions for');
+  }
+
+  // The banner shows the riskiest capability asked for
+  const capability = request.capabilities.includes('signEvent') ? 'signEvent' : request.capabilities[0];
+  let decision: PromptDecision | null;
+  try {
+    decision = await promptForPermission(host, capability, params, profilePubKey);
+    if (!decision) {
+      logRequest(type, host, 'rejected', summary, false, auditExtra);
+      return [];
+    }
+    logRequest(type, host, 'approved', summary, false, auditExtra);
+  } catch (error: any) {
+    console.error('[Ribbit Signer] Prompt error:', error);
+    logRequest(type, host, 'error', summary, false, auditExtra);
+    return { error: { message: error?.message || 'Permission prompt failed' } };
+  }
+
+  // Only what this prompt granted, not grants the site held before
+  const grants = await Storage.getActiveGrants(host, profilePubKey);
+  return grants
+    .filter(grant => decision.capabilities.includes(grant.capability))
+    .map(({ capability, duration, expires_at, allowedKinds }) => ({ capability, duration, expires_at, allowedKinds }));
+}
+
+/**
+ * Describe the signer to a web app: what it supports, and what the host may do without a prompt.
+ * Only checks the PIN cache, so asking never extends it.
+ */
+async function getSignerInfo(host: string, profilePubKey: string | null): Promise<SignerInfo> {
+  const { name, version } = browser.runtime.getManifest();
+  const profile = profilePubKey ? await Storage.getProfile(profilePubKey) : undefined;
+  let locked = false;
+  if (profile && !profile.remoteSigner) {
+    if (profile.ownPin) locked = !(await getCachedPin(profilePubKey, false));
+    else if (await Storage.isPinEnabled()) locked = !(await getCachedPin(SHARED_PIN_SCOPE, false));
+  }
+  return {
+    name,
+    version,
+    apis: OPTIONAL_APIS,
+    grants: profilePubKey ? [...new Set(await Storage.getActiveCapabilities(host, profilePubKey))] : [],
+    locked,
+  };
+}
+
+/**
+ * Execute an already authorized request on the profile's NIP-46 remote signer.
+ */
+async function processRemoteRequest(
+  { type, params, host }: ContentMessageArgs,
+  activePubKey: string,
+  remoteSigner: RemoteSignerConfig
+): Promise<ContentScriptMessageResponse> {
+  const summary = buildSummary(type, params);
+  const auditExtra = buildAuditExtra(type, params);
+  auditExtra.profilePubKey = activePubKey;
+
+  try {
+    switch (type) {
+      case 'getPublicKey':
+        return activePubKey;
+      case 'getRelays':
+        return (await Storage.getProfile(activePubKey))?.relays || {};
+      case 'signEvent': {
+        if (!params.event) {
+          return errorResponse(NostrErrorCode.INVALID_EVENT, 'Empty event');
+        }
+        if (params.event.pubkey && params.event.pubkey !== activePubKey) {
+          throw new NostrRequestError(NostrErrorCode.PUBKEY_MISMATCH, `Public key mismatch: event pubkey doesn't match the signing profile.`);
+        }
+
+        await injectClientTag(params, host);
+
+        const { kind, tags, content, created_at } = params.event;
+        const event = await callRemoteSigner(activePubKey, remoteSigner, 'sign_event', signer =>
+          signer.signEvent({ kind, tags, content, created_at })
+        );
+        return validateEvent(event) && event.pubkey === activePubKey
+          ? event
+          : errorResponse(NostrErrorCode.INVALID_EVENT, 'Invalid event');
+      }
+      case 'signEvents': {
+        const signed: VerifiedEvent[] = [];
+        for (const event of params.events) {
+          if (event.pubkey && event.pubkey !== activePubKey) {
+            throw new NostrRequestError(NostrErrorCode.PUBKEY_MISMATCH, `Public key mismatch: event pubkey doesn't match the signing profile.`);
+          }
+          await injectClientTag({ ...params, event }, host);
+          const { kind, tags, content, created_at } = event;
+          const signedEvent = await callRemoteSigner(activePubKey, remoteSigner, 'sign_event', signer =>
+            signer.signEvent({ kind, tags, content, created_at })
+          );
+          if (!validateEvent(signedEvent) || signedEvent.pubkey !== activePubKey) {
+            throw new NostrRequestError(NostrErrorCode.INVALID_EVENT, `Invalid event at index ${signed.length}`);
+          }
+          signed.push(signedEvent);
+        }
+        return signed;
+      }
+      case 'nip04.encrypt':
+        return await callRemoteSigner(activePubKey, remoteSigner, 'nip04_encrypt', signer =>
+          signer.nip04Encrypt(params.peer, params.plaintext as string)
+        );
+      case 'nip04.decrypt':
+        return await callRemoteSigner(activePubKey, remoteSigner, 'nip04_decrypt', signer =>
+          signer.nip04Decrypt(params.peer, params.ciphertext as string)
+        );
+      case 'nip44.encrypt':
+        return await callRemoteSigner(activePubKey, remoteSigner, 'nip44_encrypt', signer =>
+          signer.nip44Encrypt(params.peer, params.plaintext as string)
+        );
+      case 'nip44.decrypt':
+        return await callRemoteSigner(activePubKey, remoteSigner, 'nip44_decrypt', signer =>
+          signer.nip44Decrypt(params.peer, params.ciphertext as string)
+        );
+      default:
+        return { error: { message: `Unknown type "${type}"` } };
+    }
+  } catch (error: any) {
+    logRequest(type, host, 'error', summary, false, auditExtra);
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * For kind:22242 (relay auth), inject a client tag for client-bound session tokens.
+ * This ensures the relay binds the session token to this specific client origin.
+ */
+async function injectClientTag(params: PromptParams, host: string): Promise<void> {
+  if (params.event?.kind !== 22242 || !host) return;
+  const clientId = await Storage.getOrCreateClientId(host);
+  const tags = params.event.tags || [];
+  // Only add if not already present
+  if (!tags.some((t: string[]) => t[0] === 'client')) {
+    params.event.tags = [...tags, ['client', clientId]];
+  }
+}
+
 //#endregion Content Script Message Handling ----------------------------------
 
 //#region Prompt Response Handling --------------------------------------------
@@ -632,18 +1166,31 @@ async function handlePromptMessage(
 
   try {
     if (decision.action === 'approve') {
-      openPrompt.resolve?.(true);
-
-      // Store grants if user chose to remember
-      if (decision.remember && host) {
+      // Store grants if user chose to remember — only for the profile the prompt was shown for.
+      // Stored before resolving, so a permission request can report them.
+      if (decision.remember && host && openPrompt.profilePubKey) {
         for (const cap of decision.capabilities) {
-          await Storage.addGrant(host, cap, decision.duration, decision.allowedKinds);
+          await Storage.addGrant(
+            host, cap, decision.duration, openPrompt.profilePubKey,
+            cap === 'signEvent' ? decision.allowedKinds : undefined
+          );
         }
       }
+      openPrompt.resolve?.(decision);
+
+      // Always use this profile for the host from now on
+      if (decision.bindProfile && host && openPrompt.profilePubKey) {
+        await updateSiteProfile(host, openPrompt.profilePubKey);
+      }
+
+      // Trust the relay for future auth challenges (kind:22242)
+      if (decision.trustRelay && openPrompt.relayUrl && decision.duration !== PermissionDuration.ONCE) {
+        await Storage.addRelayAuthGrant(openPrompt.relayUrl, decision.duration);
+      }
     } else {
-      openPrompt.resolve?.(false);
+      openPrompt.resolve?.(null);
       if (host) {
-        setRejectionCooldown(host);
+        await setRejectionCooldown(host);
         await Storage.incrementDenied(host);
       }
     }
@@ -672,41 +1219,57 @@ async function handlePromptMessage(
 
 //#region PIN Handling -------------------------------------------------------
 
-async function getDecryptedPrivateKey(): Promise<string | null> {
+/**
+ * Get the decrypted private key of the active profile, or of another profile (for hosts bound to it).
+ * Prompts for the shared PIN, or the profile's own PIN, if needed.
+ */
+async function getDecryptedPrivateKey(publicKey?: string): Promise<string | null> {
   const pinEnabled = await Storage.isPinEnabled();
-
-  if (!pinEnabled) {
-    return await Storage.readActivePrivateKey();
+  const profilePubKey = publicKey ?? (await Storage.getActivePublicKey());
+  const profile = profilePubKey ? await Storage.getProfile(profilePubKey) : undefined;
+  const ownPin = !!profile?.ownPin;
+
+  if (!pinEnabled && !ownPin) {
+    return publicKey
+      ? profile?.privateKey || null
+      : await Storage.readActivePrivateKey();
   }
 
-  let pin = await getCachedPin();
+  const scope = ownPin ? profilePubKey : SHARED_PIN_SCOPE;
+  let pin = await getCachedPin(scope);
   if (!pin) {
-    pin = await promptPin('unlock');
+    pin = await promptPin('unlock', ownPin ? profilePubKey : undefined);
     if (!pin) return null;
-    await setCachedPin(pin);
+    await setCachedPin(pin, scope);
   }
 
   let decryptedKey: string | null = null;
   try {
-    const encryptedKey = await Storage.getEncryptedPrivateKey();
-    if (!encryptedKey) throw new Error('Encrypted private key not found');
-    decryptedKey = await decryptPrivateKey(pin, encryptedKey);
+    decryptedKey = await Storage.getDecryptedProfilePrivateKey(
+      pin, profilePubKey ?? undefined, getDerivedKeys(scope, pin)
+    );
     return decryptedKey;
   } catch (error) {
-    clearCachedPin();
+    clearCachedPin(scope);
     throw error;
   } finally {
     pin = clearStringReference(pin) as any;
   }
 }
 
-function promptPin(mode: 'setup' | 'unlock' | 'disable'): Promise<string | null> {
+/**
+ * Open the PIN window, or focus the one already open for the same purpose
+ * @param profilePubKey - Ask for this profile's own PIN instead of the shared one
+ */
+function promptPin(mode: 'setup' | 'unlock' | 'disable', profilePubKey?: string): Promise<string | null> {
   let id = Math.random().toString().slice(4);
 
   return new Promise((resolve, reject) => {
     let openPinPromise: Promise<browser.Windows.Window | browser.Tabs.Tab>;
 
-    const existingPinPrompt = Object.values(pinPromptMap).find(p => p.mode === mode);
+    const existingPinPrompt = Object.values(pinPromptMap).find(
+      p => p.mode === mode && p.profilePubKey === profilePubKey
+    );
     if (existingPinPrompt) {
       openPinPromise = new Promise((res, rej) => {
         if (existingPinPrompt.windowId) {
@@ -716,12 +1279,13 @@ function promptPin(mode: 'setup' | 'unlock' | 'disable'): Promise<string | null>
         }
       });
     } else {
-      const pinPageURL = `pin.html?mode=${mode}&id=${id}`;
+      const profileParam = profilePubKey ? `&profile=${profilePubKey}` : '';
+      const pinPageURL = `pin.html?mode=${mode}&id=${id}${profileParam}`;
       openPinPromise = openPopupWindow(pinPageURL, { width: 400, height: 300 });
     }
 
     openPinPromise
-      .then(win => { pinPromptMap[id] = { id, windowId: win.id, resolve, reject, mode }; })
+      .then(win => { pinPromptMap[id] = { id, windowId: win.id, resolve, reject, mode, profilePubKey }; })
       .catch(reject);
   });
 }
@@ -730,7 +1294,7 @@ async function handlePinMessage(
   message: PinMessage,
   sender: browser.Runtime.MessageSender
 ): Promise<PinMessageResponse> {
-  const { type, pin, encryptedKey, id } = message;
+  const { type, pin, id } = message;
   const pinPrompt = id ? pinPromptMap[id] : pinPromptMap[Object.keys(pinPromptMap)[0]];
 
   if (!pinPrompt) {
@@ -742,9 +1306,12 @@ async function handlePinMessage(
   try {
     switch (type) {
       case 'setupPin': {
-        if (!localPin || !encryptedKey) return { success: false, error: 'Missing PIN or encrypted key' };
-        await Storage.setEncryptedPrivateKey(encryptedKey);
-        await Storage.enablePinProtectionWithEncryptedKey(localPin, encryptedKey);
+        if (!localPin) return { success: false, error: 'Missing PIN' };
+        try {
+          await Storage.enablePinProtection(localPin);
+        } catch (error: any) {
+          return { success: false, error: error?.message || 'Failed to enable PIN protection' };
+        }
         await setCachedPin(localPin);
         pinPrompt.resolve(localPin);
         delete pinPromptMap[pinPrompt.id];
@@ -753,28 +1320,86 @@ async function handlePinMessage(
       }
       case 'verifyPin': {
         if (!localPin) return { success: false, error: 'Missing PIN' };
+        const { profilePubKey } = pinPrompt;
+        const storedEncryptedKey = await Storage.getEncryptedPrivateKey(profilePubKey);
+        if (!storedEncryptedKey) return { success: false, error: 'No encrypted key found' };
+        const blocked = await checkPinLockout();
+        if (blocked) return blocked;
+        try {
+          await decryptPrivateKey(localPin, storedEncryptedKey);
+        } catch {
+          return await recordPinFailure('unlock');
+        }
+        await completePinUnlock(pinPrompt, localPin, sender, profilePubKey ? 'Unlocked with profile PIN' : 'Unlocked with PIN');
+        return { success: true };
+      }
+      case 'unlockWithPasskey': {
+        if (pinPrompt.mode !== 'unlock' || pinPrompt.profilePubKey) {
+          return { success: false, error: 'A passkey only unlocks the shared PIN' };
+        }
+        const passkey = await Storage.readPasskeyUnlock();
+        if (!passkey || !message.prfOutput) return { success: false, error: 'No passkey is set up' };
         const storedEncryptedKey = await Storage.getEncryptedPrivateKey();
         if (!storedEncryptedKey) return { success: false, error: 'No encrypted key found' };
+        // A passkey is not a guess, so failure delays don't apply — an explicit lockout does
+        const blocked = await checkPinLockout();
+        if (blocked?.lockedOut) return blocked;
+        const prfOutput = convertHexToUint8Array(message.prfOutput);
+        try {
+          localPin = await decryptWithKeyMaterial(prfOutput, passkey.encryptedPin);
+        } catch {
+          logRequest('pin', PIN_AUDIT_HOST, 'pin-failed', 'Passkey unlock refused: unknown passkey', false);
+          return { success: false, error: 'This passkey does not unlock the PIN' };
+        } finally {
+          clearUint8Array(prfOutput);
+        }
         try {
           await decryptPrivateKey(localPin, storedEncryptedKey);
-          await setCachedPin(localPin);
-          pinPrompt.resolve(localPin);
-          delete pinPromptMap[pinPrompt.id];
-          await closePinWindow(sender);
-          return { success: true };
         } catch {
-          return { success: false, error: 'Incorrect PIN' };
+          // The PIN changed since the passkey was set up
+          await Storage.writePasskeyUnlock(null);
+          return { success: false, error: 'The passkey is out of date and was removed. Enter your PIN.' };
         }
+        await completePinUnlock(pinPrompt, localPin, sender, 'Unlocked with passkey');
+        return { success: true };
       }
       case 'disablePin': {
         if (!localPin) return { success: false, error: 'Missing PIN' };
+        const blocked = await checkPinLockout();
+        if (blocked) return blocked;
+        const storedEncryptedKey = await Storage.getEncryptedPrivateKey();
+        if (storedEncryptedKey) {
+          try {
+            await decryptPrivateKey(localPin, storedEncryptedKey);
+          } catch {
+            return await recordPinFailure('disable PIN protection');
+          }
+        }
         await Storage.disablePinProtection(localPin);
+        await recordPinSuccess('PIN protection disabled');
         clearCachedPin();
         pinPrompt.resolve(localPin);
         delete pinPromptMap[pinPrompt.id];
         await closePinWindow(sender);
         return { success: true };
       }
+      case 'unlockWithKey': {
+        // Keeps the prompt open: PIN entry is allowed again, the keys still need the PIN
+        if (!message.privateKey) return { success: false, error: 'Missing private key' };
+        const profiles = await Storage.readProfiles();
+        let publicKey: string | null = null;
+        try {
+          publicKey = derivePublicKeyFromPrivateKey(parsePrivateKeyInput(message.privateKey));
+        } catch {
+          // Invalid key format — same answer as a key that isn't ours
+        }
+        if (!publicKey || !profiles[publicKey]) {
+          logRequest('pin', PIN_AUDIT_HOST, 'pin-failed', 'PIN lockout reset refused: unknown private key', false);
+          return { success: false, lockedOut: true, error: 'This key does not belong to any profile' };
+        }
+        await recordPinSuccess('PIN lockout reset with private key', publicKey);
+        return { success: true };
+      }
       default:
         return { success: false, error: 'Unknown PIN message type' };
     }
@@ -787,6 +1412,95 @@ async function handlePinMessage(
   }
 }
 
+/**
+ * Resolves an unlock prompt with a verified PIN, caches it and closes the PIN window
+ */
+async function completePinUnlock(
+  pinPrompt: (typeof pinPromptMap)[string],
+  pin: string,
+  sender: browser.Runtime.MessageSender,
+  summary: string
+): Promise<void> {
+  const { profilePubKey } = pinPrompt;
+  await recordPinSuccess(summary, profilePubKey);
+  await setCachedPin(pin, profilePubKey ?? SHARED_PIN_SCOPE);
+  pinPrompt.resolve(pin);
+  delete pinPromptMap[pinPrompt.id];
+  await closePinWindow(sender);
+  // Re-encrypt keys stored with older KDF parameters now that the PIN is known
+  Storage.upgradePinEncryption(pin, profilePubKey)
+    .then(upgraded => upgraded && debugLog('Re-encrypted keys with current KDF parameters'))
+    .catch(error => console.warn('[Ribbit Signer] KDF upgrade failed:', error));
+}
+
+/** Failed PIN attempts allowed before delays start */
+const PIN_FREE_ATTEMPTS = 3;
+/** Delay after the first failure past the free attempts — doubles with each further failure */
+const PIN_BASE_DELAY_MS = 30 * 1000;
+const PIN_MAX_DELAY_MS = 60 * 60 * 1000;
+/** Host recorded on PIN audit entries */
+const PIN_AUDIT_HOST = 'extension';
+
+/**
+ * How long PIN entry is refused after a number of consecutive failures
+ */
+function pinRetryDelayMs(failures: number): number {
+  if (failures <= PIN_FREE_ATTEMPTS) return 0;
+  return Math.min(PIN_BASE_DELAY_MS * 2 ** (failures - PIN_FREE_ATTEMPTS - 1), PIN_MAX_DELAY_MS);
+}
+
+/**
+ * Refuses PIN entry while a failure delay runs or after a lockout
+ * @returns The refusal to send back, or null if the PIN may be checked
+ */
+async function checkPinLockout(): Promise<PinMessageResponse | null> {
+  const attempts = await Storage.readPinAttempts();
+  if (attempts.lockedOut) {
+    return {
+      success: false,
+      lockedOut: true,
+      error: 'Too many failed attempts. Enter the private key of one of your profiles to allow PIN entry again.'
+    };
+  }
+  if (attempts.retryAt && attempts.retryAt > Date.now()) {
+    return {
+      success: false,
+      retryAt: attempts.retryAt,
+      error: 'PIN entry is paused after repeated failures.'
+    };
+  }
+  return null;
+}
+
+/**
+ * Counts a wrong PIN, starts the next delay and locks PIN entry once the threshold is reached
+ */
+async function recordPinFailure(action: string): Promise<PinMessageResponse> {
+  const { failures } = await Storage.readPinAttempts();
+  const { pinLockoutThreshold } = await Storage.readSecurityPreferences();
+  const failureCount = failures + 1;
+  const lockedOut = pinLockoutThreshold > 0 && failureCount >= pinLockoutThreshold;
+  const delay = pinRetryDelayMs(failureCount);
+  const retryAt = delay > 0 ? Date.now() + delay : null;
+  await Storage.writePinAttempts({ failures: failureCount, retryAt, lockedOut });
+
+  if (lockedOut) {
+    clearCachedPin();
+    logRequest('pin', PIN_AUDIT_HOST, 'pin-locked', `Incorrect PIN (${action}), attempt ${failureCount} — PIN entry locked`, false);
+    return { success: false, lockedOut: true, error: 'Too many failed attempts. PIN entry is locked.' };
+  }
+  logRequest('pin', PIN_AUDIT_HOST, 'pin-failed', `Incorrect PIN (${action}), attempt ${failureCount}`, false);
+  return { success: false, retryAt, error: 'Incorrect PIN' };
+}
+
+/**
+ * Clears failed attempt tracking after a correct PIN or lockout reset
+ */
+async function recordPinSuccess(summary: string, profilePubKey?: string): Promise<void> {
+  await Storage.writePinAttempts({ failures: 0, retryAt: null, lockedOut: false });
+  logRequest('pin', PIN_AUDIT_HOST, 'pin-unlocked', summary, false, profilePubKey ? { profilePubKey } : undefined);
+}
+
 async function closePinWindow(sender: any): Promise<void> {
   if (sender?.tab) {
     if (browser.windows && sender.tab.windowId !== undefined) {
@@ -797,28 +1511,150 @@ async function closePinWindow(sender: any): Promise<void> {
   }
 }
 
-async function handleEncryptPrivateKey(message: any): Promise<any> {
+async function handleEncryptPrivateKey({ privateKey }: RpcParams<'encryptPrivateKey'>): Promise<RpcResult<'encryptPrivateKey'>> {
   const pinEnabled = await Storage.isPinEnabled();
-  if (!pinEnabled) return { success: false, error: 'PIN protection is not enabled' };
+  if (!pinEnabled) throw new Error('PIN protection is not enabled');
+
+  let pin = await getCachedPin();
+  if (!pin) {
+    pin = await promptPin('unlock');
+    if (!pin) throw new Error('PIN is required to encrypt private key');
+    await setCachedPin(pin);
+  }
+
+  try {
+    return { encryptedKey: await encryptPrivateKey(pin, privateKey) };
+  } finally {
+    pin = clearStringReference(pin) as any;
+  }
+}
 
-  const { privateKey } = message;
-  if (!privateKey) return { success: false, error: 'Private key is required' };
+/**
+ * Stores the shared PIN encrypted with a new passkey's PRF output, asking for the PIN if needed
+ */
+async function handleRegisterPasskey(params: RpcParams<'registerPasskey'>): Promise<void> {
+  const { credentialId, prfSalt } = params;
+  if (!(await Storage.isPinEnabled())) throw new Error('PIN protection is not enabled');
 
   let pin = await getCachedPin();
   if (!pin) {
     pin = await promptPin('unlock');
-    if (!pin) return { success: false, error: 'PIN is required to encrypt private key' };
+    if (!pin) throw new Error('PIN is required to set up a passkey');
     await setCachedPin(pin);
   }
 
+  const prfOutput = convertHexToUint8Array(params.prfOutput);
   try {
-    const encrypted = await encryptPrivateKey(pin, privateKey);
-    return { success: true, encryptedKey: encrypted };
-  } catch (error: any) {
-    return { success: false, error: error?.message };
+    const encryptedPin = await encryptWithKeyMaterial(prfOutput, pin);
+    await Storage.writePasskeyUnlock({ credentialId, prfSalt, encryptedPin });
+  } finally {
+    clearUint8Array(prfOutput);
+    pin = clearStringReference(pin) as any;
+  }
+}
+
+/**
+ * Re-encrypts a profile's key with its own PIN or passphrase, asking for the current one if needed
+ */
+async function handleSetProfilePin({ publicKey, pin }: RpcParams<'setProfilePin'>): Promise<void> {
+  if (pin.length < 4) throw new Error('A PIN or passphrase of at least 4 characters is required');
+
+  const profile = await Storage.getProfile(publicKey);
+  if (!profile) throw new Error('Profile not found');
+  if (profile.remoteSigner) throw new Error('Remote signer profiles have no local key');
+  if (profile.ownPin) throw new Error('This profile already has its own PIN');
+
+  let privateKey: string | null = null;
+  try {
+    privateKey = await getDecryptedPrivateKey(publicKey);
+    if (!privateKey) throw new Error('PIN is required to change protection');
+    await Storage.setProfilePrivateKey(publicKey, await encryptPrivateKey(pin, privateKey), true);
+  } finally {
+    privateKey = clearStringReference(privateKey) as any;
+  }
+}
+
+/**
+ * Moves a profile with its own PIN back to the shared PIN, or to plain text when PIN protection is off
+ */
+async function handleClearProfilePin({ publicKey, pin }: RpcParams<'clearProfilePin'>): Promise<void> {
+  const profile = await Storage.getProfile(publicKey);
+  if (!profile?.ownPin) throw new Error('This profile has no PIN of its own');
+
+  const blocked = await checkPinLockout();
+  if (blocked) throw new Error(blocked.error);
+
+  let privateKey: string | null = null;
+  let sharedPin: string | null = null;
+  try {
+    try {
+      privateKey = await decryptPrivateKey(pin, profile.privateKey);
+    } catch {
+      throw new Error((await recordPinFailure('remove profile PIN')).error);
+    }
+    await recordPinSuccess('Profile PIN removed', publicKey);
+    clearCachedPin(publicKey);
+
+    if (await Storage.isPinEnabled()) {
+      sharedPin = await getCachedPin();
+      if (!sharedPin) {
+        sharedPin = await promptPin('unlock');
+        if (!sharedPin) throw new Error('The shared PIN is required');
+        await setCachedPin(sharedPin);
+      }
+      await Storage.setProfilePrivateKey(publicKey, await encryptPrivateKey(sharedPin, privateKey), false);
+    } else {
+      await Storage.setProfilePrivateKey(publicKey, privateKey, false);
+    }
+  } finally {
+    privateKey = clearStringReference(privateKey) as any;
+    sharedPin = clearStringReference(sharedPin) as any;
+  }
+}
+
+/**
+ * Restores a backup read by the options page. Merging PIN-encrypted keys asks for the
+ * current PIN if needed, which never leaves the background script; a replace locks the
+ * signer, as the cached PIN may not be the one of the restored keys.
+ */
+async function handleRestoreBackup({ backup, mode }: RpcParams<'restoreBackup'>): Promise<void> {
+  validateBackup(backup);
+
+  let pin: string | null = null;
+  try {
+    if (mode === 'merge' && backup.pinEnabled && (await Storage.isPinEnabled())) {
+      pin = await getCachedPin();
+      if (!pin) {
+        pin = await promptPin('unlock');
+        if (!pin) throw new Error('PIN is required to merge PIN-encrypted keys');
+        await setCachedPin(pin);
+      }
+    }
+    await restoreBackup(backup, mode, pin);
   } finally {
     pin = clearStringReference(pin) as any;
   }
+
+  if (mode === 'replace') lockSigner('backup restored');
+}
+
+/**
+ * Encrypts a profile's private key as a NIP-49 ncryptsec, asking for the PIN if needed.
+ * The plain-text key never leaves the background script.
+ */
+async function handleExportNcryptsec({ publicKey, password }: RpcParams<'exportNcryptsec'>): Promise<RpcResult<'exportNcryptsec'>> {
+  const profile = await Storage.getProfile(publicKey);
+  if (!profile) throw new Error('Profile not found');
+  if (profile.remoteSigner) throw new Error('Remote signer profiles have no local key');
+
+  let privateKey: string | null = null;
+  try {
+    privateKey = await getDecryptedPrivateKey(publicKey);
+    if (!privateKey) throw new Error('PIN is required to export the key');
+    return { ncryptsec: encryptNcryptsec(privateKey, password) };
+  } finally {
+    privateKey = clearStringReference(privateKey) as any;
+  }
 }
 
 //#endregion PIN Handling ----------------------------------------------------
@@ -841,3 +1677,31 @@ function getSharedSecret(sk: Uint8Array, peer: string) {
 }
 
 //#endregion Shared Secret Cache ---------------------------------------------
+
+//#region Auto-Lock ----------------------------------------------------------
+
+/** Shortest idle detection interval the idle API accepts, in seconds */
+const MIN_IDLE_DETECTION_SECONDS = 15;
+
+/**
+ * Forget every cached PIN and the conversation keys derived from private keys.
+ * The next request that needs a key asks for the PIN again.
+ */
+function lockSigner(reason: string): void {
+  clearCachedPin();
+  secretsCache.clear();
+  debugLog(`Locked (${reason})`);
+}
+
+/**
+ * Set how long the system must be inactive before the idle API reports 'idle'.
+ */
+async function applyIdleDetectionInterval(): Promise<void> {
+  if (!browser.idle) return;
+  const { lockOnIdleMinutes } = await Storage.readSecurityPreferences();
+  if (lockOnIdleMinutes > 0) {
+    browser.idle.setDetectionInterval(Math.max(MIN_IDLE_DETECTION_SECONDS, lockOnIdleMinutes * 60));
+  }
+}
+
+//#endregion Auto-Lock -------------------------------------------------------
@@ -0,0 +1,399 @@
+/**
+ * Encrypted backup and restore of the complete signer state
+ * Backups are encrypted with a passphrase using the same AES-GCM/scrypt
+ * primitives as PIN protection, and fully validated before anything is written.
+ */
+
+import browser from 'webextension-polyfill';
+
+import {
+  type BackupFile,
+  type BackupRestoreMode,
+  type SignerBackup,
+  type SitePermissions,
+  ALL_CAPABILITIES,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  ConfigurationKeys,
+  DEFAULT_SECURITY_PREFERENCES,
+  PermissionDuration,
+} from './types';
+import * as Storage from './storage';
+import {
+  isHexadecimal,
+  isPrivateKeyEncrypted,
+  derivePublicKeyFromPrivateKey,
+  isValidRelayURL,
+  isValidRelayUrlPattern,
+  isValidTagValuePattern,
+} from './common';
+import { BUNKER_REGEX } from 'nostr-tools/nip46';
+import { encryptString, decryptString } from './pinEncryption';
+
+/** Minimum passphrase length accepted for new backups */
+export const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const DURATIONS = Object.values(PermissionDuration) as string[];
+const RULE_ACTIONS = ['approve', 'prompt', 'reject'];
+
+//#region Create -------------------------------------------------------------
+
+/**
+ * Collects the signer state and encrypts it with a passphrase.
+ * Profile keys are stored as they are in storage — still PIN-encrypted when PIN protection is on.
+ * @returns The backup file contents (JSON)
+ */
+export async function createBackup(passphrase: string): Promise<string> {
+  if (passphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_BACKUP_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const backup: SignerBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Math.floor(Date.now() / 1000),
+    pinEnabled: await Storage.isPinEnabled(),
+    activePublicKey: await Storage.getActivePublicKey(),
+    profiles: await Storage.readProfiles(),
+    sitePermissions: await Storage.readSitePermissions(),
+    relayAuthGrants: await Storage.readRelayAuthGrants(),
+    securityPreferences: await Storage.readSecurityPreferences(),
+    clientIds: await Storage.readClientIds(),
+    policyRules: await Storage.readPolicyRules(),
+  };
+
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    encrypted: await encryptString(passphrase, JSON.stringify(backup)),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+//#endregion Create ----------------------------------------------------------
+
+//#region Read & Validate ----------------------------------------------------
+
+/**
+ * Decrypts and validates a backup file without writing anything
+ * @param contents - The backup file contents
+ * @param passphrase - The passphrase the backup was created with
+ * @throws Error describing the first problem found
+ */
+export async function readBackup(contents: string, passphrase: string): Promise<SignerBackup> {
+  let file: BackupFile;
+  try {
+    file = JSON.parse(contents);
+  } catch (error) {
+    throw new Error('Not a backup file (invalid JSON)');
+  }
+  if (!isObject(file) || file.format !== BACKUP_FORMAT || typeof file.encrypted !== 'string') {
+    throw new Error('Not a Ribbit Signer backup file');
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${file.version} is newer than this extension supports`);
+  }
+
+  let json: string;
+  try {
+    json = await decryptString(passphrase, file.encrypted);
+  } catch (error) {
+    throw new Error('Wrong passphrase or corrupted backup');
+  }
+
+  let backup: SignerBackup;
+  try {
+    backup = JSON.parse(json);
+  } catch (error) {
+    throw new Error('Backup contents are corrupted');
+  }
+  validateBackup(backup);
+  return backup;
+}
+
+/**
+ * Checks the shape of every section of a decrypted backup.
+ * Grants and bindings that point at profiles missing from the backup are dropped.
+ * @throws Error describing the first problem found
+ */
+export function validateBackup(backup: SignerBackup): void {
+  if (!isObject(backup) || backup.format !== BACKUP_FORMAT || typeof backup.pinEnabled !== 'boolean') {
+    throw new Error('Backup contents are corrupted');
+  }
+
+  // Profiles
+  if (!isObject(backup.profiles)) throw new Error('Backup has no profiles');
+  for (const [pubKey, profile] of Object.entries(backup.profiles)) {
+    const label = profile?.name || pubKey;
+    if (!isHexKey(pubKey) || !isObject(profile)) {
+      throw new Error(`Invalid profile entry: ${pubKey}`);
+    }
+    if (typeof profile.privateKey !== 'string') {
+      throw new Error(`Profile "${label}" has no private key field`);
+    }
+    if (profile.remoteSigner) {
+      const { bunkerUri, clientSecretKey } = profile.remoteSigner;
+      if (
+        !isObject(profile.remoteSigner) ||
+        typeof bunkerUri !== 'string' ||
+        !BUNKER_REGEX.test(bunkerUri) ||
+        !isHexKey(clientSecretKey)
+      ) {
+        throw new Error(`Profile "${label}" has an invalid remote signer`);
+      }
+    } else if (backup.pinEnabled || profile.ownPin) {
+      if (!isPrivateKeyEncrypted(profile.privateKey)) {
+        throw new Error(`Profile "${label}" should have a PIN-encrypted key`);
+      }
+    } else if (!isMatchingPlainKey(profile.privateKey, pubKey)) {
+      throw new Error(`Profile "${label}" has a private key that doesn't match its public key`);
+    }
+    if (profile.relays !== undefined) {
+      if (!isObject(profile.relays)) throw new Error(`Profile "${label}" has invalid relays`);
+      for (const url of Object.keys(profile.relays)) {
+        if (!isValidRelayURL(url)) throw new Error(`Profile "${label}" has an invalid relay: ${url}`);
+      }
+    }
+  }
+  if (backup.activePublicKey !== null && !(backup.activePublicKey in backup.profiles)) {
+    throw new Error('Backup active profile is missing from its profiles');
+  }
+
+  // Site permissions
+  if (!isObject(backup.sitePermissions)) throw new Error('Backup site permissions are invalid');
+  for (const [host, site] of Object.entries(backup.sitePermissions)) {
+    if (
+      !isObject(site) ||
+      site.host !== host ||
+      !Array.isArray(site.grants) ||
+      (site.quotas !== undefined && !Array.isArray(site.quotas))
+    ) {
+      throw new Error(`Invalid site permission entry: ${host}`);
+    }
+    for (const quota of site.quotas ?? []) {
+      if (
+        !isObject(quota) ||
+        typeof quota.id !== 'string' ||
+        !ALL_CAPABILITIES.includes(quota.capability) ||
+        !isIntegerList(quota.kinds) ||
+        !isPositiveInteger(quota.limit) ||
+        !isPositiveInteger(quota.windowSeconds) ||
+        !Array.isArray(quota.usage) ||
+        !quota.usage.every(Number.isFinite)
+      ) {
+        throw new Error(`Invalid quota for ${host}`);
+      }
+    }
+    for (const grant of site.grants) {
+      if (
+        !isObject(grant) ||
+        !ALL_CAPABILITIES.includes(grant.capability) ||
+        typeof grant.profilePubKey !== 'string' ||
+        !DURATIONS.includes(grant.duration) ||
+        (grant.constraints !== undefined &&
+          (!isObject(grant.constraints) ||
+            !Object.values(grant.constraints.tagValuePatterns ?? {}).every(isValidTagValuePattern)))
+      ) {
+        throw new Error(`Invalid grant for ${host}`);
+      }
+    }
+    site.grants = site.grants.filter(grant => grant.profilePubKey in backup.profiles);
+    if (site.boundProfilePubKey && !(site.boundProfilePubKey in backup.profiles)) {
+      delete site.boundProfilePubKey;
+    }
+  }
+
+  // Relay auth grants
+  if (!isObject(backup.relayAuthGrants)) throw new Error('Backup trusted relays are invalid');
+  for (const [url, grant] of Object.entries(backup.relayAuthGrants)) {
+    if (
+      !isObject(grant) ||
+      grant.relayUrl !== url ||
+      !(isValidRelayURL(url) || isValidRelayUrlPattern(url)) ||
+      !DURATIONS.includes(grant.duration)
+    ) {
+      throw new Error(`Invalid trusted relay entry: ${url}`);
+    }
+  }
+
+  // Security preferences — unknown or mistyped fields fall back to defaults
+  if (!isObject(backup.securityPreferences)) throw new Error('Backup security preferences are invalid');
+  for (const key of Object.keys(DEFAULT_SECURITY_PREFERENCES)) {
+    if (typeof backup.securityPreferences[key] !== typeof DEFAULT_SECURITY_PREFERENCES[key]) {
+      backup.securityPreferences[key] = DEFAULT_SECURITY_PREFERENCES[key];
+    }
+  }
+
+  // Client IDs
+  if (!isObject(backup.clientIds) || Object.values(backup.clientIds).some(id => typeof id !== 'string')) {
+    throw new Error('Backup client IDs are invalid');
+  }
+
+  // Policy rules
+  if (!Array.isArray(backup.policyRules)) throw new Error('Backup policy rules are invalid');
+  for (const rule of backup.policyRules) {
+    if (
+      !isObject(rule) ||
+      typeof rule.id !== 'string' ||
+      typeof rule.name !== 'string' ||
+      typeof rule.enabled !== 'boolean' ||
+      typeof rule.hostPattern !== 'string' ||
+      !Array.isArray(rule.capabilities) ||
+      !rule.capabilities.every(cap => ALL_CAPABILITIES.includes(cap)) ||
+      !isIntegerList(rule.kinds) ||
+      (rule.maxContentLength !== undefined && !isPositiveInteger(rule.maxContentLength)) ||
+      !RULE_ACTIONS.includes(rule.action)
+    ) {
+      throw new Error(`Invalid policy rule: ${rule?.name || rule?.id}`);
+    }
+  }
+}
+
+function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isHexKey(value: unknown): boolean {
+  return typeof value === 'string' && value.length === 64 && isHexadecimal(value);
+}
+
+function isIntegerList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(Number.isInteger);
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isMatchingPlainKey(privateKey: string, pubKey: string): boolean {
+  try {
+    return derivePublicKeyFromPrivateKey(privateKey) === pubKey;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function isMatchingEncryptedKey(pin: string, encryptedKey: string, pubKey: string): Promise<boolean> {
+  try {
+    return isMatchingPlainKey(await decryptString(pin, encryptedKey), pubKey);
+  } catch (error) {
+    return false;
+  }
+}
+
+//#endregion Read & Validate -------------------------------------------------
+
+//#region Restore ------------------------------------------------------------
+
+/**
+ * Writes a validated backup to storage.
+ * Merge keeps existing entries on conflict and only adds what is missing; it requires the
+ * backup and this browser to agree on PIN protection, and the backup's PIN-encrypted keys
+ * to decrypt with the current PIN. Replace discards the current state.
+ * @param pin - The current PIN, needed to merge a PIN-protected backup
+ */
+export async function restoreBackup(
+  backup: SignerBackup,
+  mode: BackupRestoreMode,
+  pin: string | null = null
+): Promise<void> {
+  if (mode === 'replace') {
+    await browser.storage.local.remove([
+      ConfigurationKeys.PRIVATE_KEY,
+      ConfigurationKeys.ENCRYPTED_PRIVATE_KEY,
+      ConfigurationKeys.ACTIVE_PUBLIC_KEY,
+      ConfigurationKeys.SESSION_TOKENS,
+      ConfigurationKeys.PASSKEY_UNLOCK,
+      ConfigurationKeys.PIN_ATTEMPTS,
+      ConfigurationKeys.REJECTION_COOLDOWNS,
+    ]);
+    await browser.storage.local.set({
+      [ConfigurationKeys.PIN_ENABLED]: backup.pinEnabled,
+      [ConfigurationKeys.PROFILES]: backup.profiles,
+      [ConfigurationKeys.SITE_PERMISSIONS]: backup.sitePermissions,
+      [ConfigurationKeys.RELAY_AUTH_GRANTS]: backup.relayAuthGrants,
+      [ConfigurationKeys.SECURITY_PREFERENCES]: backup.securityPreferences,
+      [ConfigurationKeys.CLIENT_IDS]: backup.clientIds,
+      [ConfigurationKeys.POLICY_RULES]: backup.policyRules,
+    });
+    const active = backup.activePublicKey ?? Object.keys(backup.profiles)[0];
+    if (active) await Storage.activateProfile(active);
+    return;
+  }
+
+  if (backup.pinEnabled !== (await Storage.isPinEnabled())) {
+    throw new Error(
+      backup.pinEnabled
+        ? 'This backup has PIN-encrypted keys. Turn on PIN protection with the same PIN, or use Replace.'
+        : 'This backup has unencrypted keys. Turn off PIN protection, or use Replace.'
+    );
+  }
+
+  const currentProfiles = await Storage.readProfiles();
+  if (backup.pinEnabled) {
+    for (const [pubKey, profile] of Object.entries(backup.profiles)) {
+      if (currentProfiles[pubKey] || profile.remoteSigner || profile.ownPin) continue;
+      if (!pin || !(await isMatchingEncryptedKey(pin, profile.privateKey, pubKey))) {
+        throw new Error(
+          "This backup's keys were encrypted with a different PIN. Change your PIN to match, or use Replace."
+        );
+      }
+    }
+  }
+
+  const profiles = { ...backup.profiles, ...currentProfiles };
+  const relayAuthGrants = { ...backup.relayAuthGrants, ...(await Storage.readRelayAuthGrants()) };
+  const clientIds = { ...backup.clientIds, ...(await Storage.readClientIds()) };
+  const policyRules = await Storage.readPolicyRules();
+  const ruleIds = new Set(policyRules.map(rule => rule.id));
+
+  await browser.storage.local.set({
+    [ConfigurationKeys.PROFILES]: profiles,
+    [ConfigurationKeys.SITE_PERMISSIONS]: mergeSitePermissions(
+      await Storage.readSitePermissions(),
+      backup.sitePermissions
+    ),
+    [ConfigurationKeys.RELAY_AUTH_GRANTS]: relayAuthGrants,
+    [ConfigurationKeys.CLIENT_IDS]: clientIds,
+    [ConfigurationKeys.POLICY_RULES]: [
+      ...policyRules,
+      ...backup.policyRules.filter(rule => !ruleIds.has(rule.id)),
+    ],
+  });
+
+  if (!(await Storage.getActivePublicKey())) {
+    const active = backup.activePublicKey ?? Object.keys(profiles)[0];
+    if (active) await Storage.activateProfile(active);
+  }
+}
+
+/**
+ * Adds backed-up sites and grants to the current ones.
+ * Existing grants (same capability and profile) and bindings win.
+ */
+function mergeSitePermissions(current: SitePermissions, incoming: SitePermissions): SitePermissions {
+  const merged = { ...current };
+  for (const [host, site] of Object.entries(incoming)) {
+    const existing = merged[host];
+    if (!existing) {
+      merged[host] = site;
+      continue;
+    }
+    const grants = [...existing.grants];
+    for (const grant of site.grants) {
+      const conflict = grants.some(
+        g => g.capability === grant.capability && g.profilePubKey === grant.profilePubKey
+      );
+      if (!conflict) grants.push(grant);
+    }
+    merged[host] = {
+      ...existing,
+      first_seen: Math.min(existing.first_seen, site.first_seen),
+      grants,
+      boundProfilePubKey: existing.boundProfilePubKey ?? site.boundProfilePubKey,
+    };
+  }
+  return merged;
+}
+
+//#endregion Restore ---------------------------------------------------------
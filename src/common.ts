@@ -1,5 +1,8 @@
 import browser from 'webextension-polyfill';
 import { getPublicKey, nip19 } from 'nostr-tools';
+import * as nip49 from 'nostr-tools/nip49';
+
+import { type ContentScriptMessageResponseError, type SigningConstraints, NostrErrorCode } from './types';
 
 export const PERMISSIONS_REQUIRED = {
   getPublicKey: 1,
@@ -90,7 +93,149 @@ export function truncatePublicKeys(
  * @returns {boolean}
  */
 export function isValidRelayURL(url: string): boolean {
-  return url != null && url.trim() != '' && url.startsWith('wss://');
+  return url != null && url.trim() != '' && normalizeRelayUrl(url).startsWith('wss://');
+}
+
+//#region Relay URL Utilities
+
+/**
+ * Normalizes a relay URL so the same relay always maps to the same key:
+ * lower-case scheme and host, no default port, no trailing slash, no fragment.
+ * @example normalizeRelayUrl('WSS://Relay.Example.com:443/') === 'wss://relay.example.com'
+ * @param url - The relay URL (or wildcard pattern) to normalize
+ * @returns The normalized URL, or the trimmed input if it doesn't look like a URL
+ */
+export function normalizeRelayUrl(url: string): string {
+  const trimmed = (url ?? '').trim();
+  const match = trimmed.match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)([^?#]*)(\?[^#]*)?/i);
+  if (!match) return trimmed;
+
+  const scheme = match[1].toLowerCase();
+  let host = match[2].toLowerCase();
+  if ((scheme === 'wss' && host.endsWith(':443')) || (scheme === 'ws' && host.endsWith(':80'))) {
+    host = host.replace(/:\d+$/, '');
+  }
+  const path = match[3].replace(/\/+$/, '');
+  const query = match[4] && match[4] !== '?' ? match[4] : '';
+  return `${scheme}://${host}${path}${query}`;
+}
+
+/**
+ * Checks whether a relay URL is a wildcard pattern (e.g. "wss://*.example.com")
+ */
+export function isRelayUrlPattern(url: string): boolean {
+  return /^[a-z]+:\/\/\*\./.test(normalizeRelayUrl(url));
+}
+
+/**
+ * Checks whether a wildcard pattern is acceptable: the wildcard must be the
+ * leftmost host label and must be followed by at least a registrable domain,
+ * so "wss://*.network" is rejected.
+ */
+export function isValidRelayUrlPattern(pattern: string): boolean {
+  const normalized = normalizeRelayUrl(pattern);
+  const match = normalized.match(/^wss:\/\/\*\.([^/?*]+)/);
+  return match != null && match[1].split('.').filter(Boolean).length >= 2;
+}
+
+/**
+ * Checks whether a relay URL matches a grant URL, which may be a wildcard pattern.
+ * "wss://*.example.com" matches any subdomain of example.com (but not example.com itself)
+ * with the same scheme, path and query.
+ * @param pattern - The grant relay URL or pattern
+ * @param url - The relay URL to check
+ */
+export function matchRelayUrl(pattern: string, url: string): boolean {
+  const normalizedPattern = normalizeRelayUrl(pattern);
+  const normalizedUrl = normalizeRelayUrl(url);
+  if (!isRelayUrlPattern(normalizedPattern)) return normalizedPattern === normalizedUrl;
+
+  const [patternScheme, patternRest] = normalizedPattern.split('://');
+  const [urlScheme, urlRest] = normalizedUrl.split('://');
+  if (patternScheme !== urlScheme || urlRest === undefined) return false;
+
+  const splitHost = (rest: string) => {
+    const i = rest.search(/[/?]/);
+    return i === -1 ? [rest, ''] : [rest.substring(0, i), rest.substring(i)];
+  };
+  const [patternHost, patternTail] = splitHost(patternRest);
+  const [urlHost, urlTail] = splitHost(urlRest);
+  const suffix = patternHost.substring(1); // ".example.com"
+  return patternTail === urlTail && urlHost.endsWith(suffix) && urlHost.length > suffix.length;
+}
+
+//#endregion Relay URL Utilities
+
+/**
+ * Gets the relay URL a NIP-42 auth event (kind:22242) is meant for
+ * @param event - The event to inspect
+ * @returns The value of the `relay` tag, or null if this is not a relay auth event
+ */
+export function getRelayAuthUrl(event?: { kind: number; tags?: string[][] }): string | null {
+  if (!event || event.kind !== 22242) return null;
+  const relayTag = event.tags?.find(t => t[0] === 'relay');
+  return relayTag && relayTag[1] ? relayTag[1] : null;
+}
+
+/**
+ * Compiles a tag value pattern of a signing constraint. It must match the whole
+ * tag value, so "abc" only allows "abc" rather than any value containing it
+ * @throws SyntaxError if the pattern is not a valid regular expression
+ */
+export function compileTagValuePattern(pattern: string): RegExp {
+  return new RegExp(`^(?:${pattern})$`);
+}
+
+/**
+ * Checks whether a tag value pattern compiles
+ */
+export function isValidTagValuePattern(pattern: unknown): boolean {
+  if (typeof pattern !== 'string' || !pattern) return false;
+  try {
+    compileTagValuePattern(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks an event against the content constraints of a signEvent grant
+ * @param constraints - The grant's constraints
+ * @param event - The event about to be signed
+ * @param now - Current time in unix seconds
+ * @returns true if the event meets every constraint. Invalid patterns never match
+ */
+export function matchesSigningConstraints(
+  constraints: SigningConstraints,
+  event: { content?: string; tags?: string[][]; created_at?: number },
+  now: number
+): boolean {
+  const tags = event.tags || [];
+  const tagNames = new Set(tags.map(t => t[0]));
+
+  if (constraints.maxContentLength !== undefined && (event.content ?? '').length > constraints.maxContentLength) {
+    return false;
+  }
+  if (constraints.requiredTags?.some(name => !tagNames.has(name))) return false;
+  if (constraints.forbiddenTags?.some(name => tagNames.has(name))) return false;
+  if (
+    constraints.maxCreatedAtSkew !== undefined &&
+    (typeof event.created_at !== 'number' || Math.abs(event.created_at - now) > constraints.maxCreatedAtSkew)
+  ) {
+    return false;
+  }
+
+  for (const [name, pattern] of Object.entries(constraints.tagValuePatterns || {})) {
+    let regex: RegExp;
+    try {
+      regex = compileTagValuePattern(pattern);
+    } catch {
+      return false;
+    }
+    if (tags.some(t => t[0] === name && !regex.test(t[1] ?? ''))) return false;
+  }
+  return true;
 }
 
 export function isHexadecimal(value: string) {
@@ -216,13 +361,14 @@ export function formatPrivateKeyForDisplay(privateKey: string, pinEnabled: boole
 }
 
 /**
- * Validates if a private key has a valid format (hex or nsec)
+ * Validates if a private key has a valid format (hex, nsec or NIP-49 ncryptsec)
  * @param privateKey - The private key to validate
  * @returns true if the format is valid, false otherwise
  */
 export function validatePrivateKeyFormat(privateKey: string): boolean {
   if (privateKey === '') return true;
   if (privateKey.match(/^[a-f0-9]{64}$/)) return true;
+  if (isNcryptsec(privateKey)) return true;
   try {
     if (nip19.decode(privateKey).type === 'nsec') return true;
   } catch (err) {
@@ -231,4 +377,81 @@ export function validatePrivateKeyFormat(privateKey: string): boolean {
   return false;
 }
 
+/**
+ * Converts a typed-in private key to hex
+ * @param privateKey - A 64-char hex or nsec1... private key
+ * @returns The private key (hex string)
+ * @throws Error if the key is neither
+ */
+export function parsePrivateKeyInput(privateKey: string): string {
+  const key = privateKey.trim().toLowerCase();
+  if (key.match(/^[a-f0-9]{64}$/)) return key;
+  const { type, data } = nip19.decode(key);
+  if (type !== 'nsec') throw new Error('Not a private key');
+  return convertUint8ArrayToHex(data as Uint8Array);
+}
+
+/**
+ * Checks if a key is a NIP-49 password-encrypted private key (ncryptsec1...)
+ */
+export function isNcryptsec(privateKey: string): boolean {
+  return nip19.NostrTypeGuard.isNcryptsec(privateKey);
+}
+
+/**
+ * Decrypts a NIP-49 ncryptsec key
+ * @param ncryptsec - The ncryptsec1... string
+ * @param password - The password it was encrypted with
+ * @returns The private key (hex string)
+ * @throws Error if the password is wrong or the ncryptsec is malformed
+ */
+export function decryptNcryptsec(ncryptsec: string, password: string): string {
+  return convertUint8ArrayToHex(nip49.decrypt(ncryptsec, password));
+}
+
+/**
+ * Encrypts a private key as a NIP-49 ncryptsec, portable to other Nostr clients
+ * @param privateKey - The plain-text private key (hex string)
+ * @param password - The password to encrypt with
+ * @returns The ncryptsec1... string
+ */
+export function encryptNcryptsec(privateKey: string, password: string): string {
+  return nip49.encrypt(convertHexToUint8Array(privateKey), password);
+}
+
 //#endregion Private Key Utilities
+
+//#region Request Errors
+
+/**
+ * An error to send back to the web app with a stable code
+ */
+export class NostrRequestError extends Error {
+  code: NostrErrorCode;
+
+  constructor(code: NostrErrorCode, message: string) {
+    super(message);
+    this.name = 'NostrRequestError';
+    this.code = code;
+  }
+}
+
+/**
+ * Builds an error response for the web app
+ */
+export function errorResponse(code: NostrErrorCode, message: string): ContentScriptMessageResponseError {
+  return { error: { message, code } };
+}
+
+/**
+ * Builds the error response for a caught error
+ * Only the message and a known code reach the page: other codes (a DOMException's
+ * number, say) become INTERNAL_ERROR, and the stack, which names extension files, is dropped.
+ * @param error - The error; its code is passed on if it is a NostrRequestError
+ */
+export function toErrorResponse(error: any): ContentScriptMessageResponseError {
+  const code = Object.values(NostrErrorCode).includes(error?.code) ? error.code : NostrErrorCode.INTERNAL_ERROR;
+  return { error: { message: error?.message || String(error), code } };
+}
+
+//#endregion Request Errors
@@ -1,52 +1,64 @@
 import browser from 'webextension-polyfill';
+import { ConfigurationKeys } from './types';
 
 const EXTENSION_CODE = 'ribbit-signer';
+const CONNECT_EVENT = `${EXTENSION_CODE}:connect`;
+const READY_EVENT = `${EXTENSION_CODE}:ready`;
 
-// inject the script that will provide window.nostr
-let script = document.createElement('script');
-script.setAttribute('async', 'false');
-script.setAttribute('type', 'text/javascript');
-script.setAttribute('src', browser.runtime.getURL('nostr-provider.js'));
-document.head.appendChild(script);
-
-// Session token message types that use params fields directly
-const SESSION_TYPES = new Set([
-  'getSessionToken', 'setSessionToken', 'removeSessionToken', 'getSessionTokens',
-  'getClientId', 'getRelayAuthGrants', 'removeRelayAuthGrant',
-]);
-
-// listen for messages from that script
-window.addEventListener('message', async message => {
-  if (message.source !== window) return;
-  if (!message.data) return;
-  if (!message.data.params && !SESSION_TYPES.has(message.data.type)) return;
-  if (message.data.ext !== EXTENSION_CODE) return;
-
-  // pass on to background
+// Both this script and the provider of window.nostr, which runs in the page's own world,
+// are injected at document_start, before any script of the page. The provider gets its
+// end of our channel in a synchronous event, so the handover is over before page code
+// exists to watch it, and the provider refuses any channel after the first.
+const channel = new MessageChannel();
+/** Our end of the channel; the other end goes to the provider only */
+const port = channel.port1;
+port.onmessage = handleRequest;
+
+/**
+ * Hands the provider its end of the channel
+ * @returns Whether the provider took it
+ */
+function connect() {
+  return !window.dispatchEvent(new MessageEvent(CONNECT_EVENT, { ports: [channel.port2], cancelable: true }));
+}
+
+// The provider asks once it runs, in case it was injected after us
+if (!connect()) {
+  window.addEventListener(READY_EVENT, function onReady() {
+    window.removeEventListener(READY_EVENT, onReady);
+    connect();
+  });
+}
+
+// Waits on our end of the channel until the provider starts its own
+browser.storage.local
+  .get(ConfigurationKeys.SECURITY_PREFERENCES)
+  .then(stored => !!stored[ConfigurationKeys.SECURITY_PREFERENCES]?.debugLogging)
+  .catch(() => false)
+  .then(debug => port.postMessage({ type: 'init', debug }));
+
+// relay profile changes from the background to the page, if they concern this host
+browser.runtime.onMessage.addListener(message => {
+  if (message?.type !== 'profileChanged') return;
+  if (message.hosts && !message.hosts.includes(location.host)) return;
+  if (message.excludedHosts?.includes(location.host)) return;
+  port.postMessage({ type: 'accountsChanged' });
+});
+
+// pass requests from the provider on to the background
+async function handleRequest(message) {
+  const { id, type, params } = message.data || {};
+  if (!id || !type || !params) return;
+
+  // the background answers for the sender's own host
   let response;
   try {
-    // Session token messages pass params fields as top-level message properties
-    if (SESSION_TYPES.has(message.data.type)) {
-      response = await browser.runtime.sendMessage({
-        type: message.data.type,
-        ...message.data.params,
-        host: location.host
-      });
-    } else {
-      response = await browser.runtime.sendMessage({
-        type: message.data.type,
-        params: message.data.params,
-        host: location.host
-      });
-    }
+    const reply = await browser.runtime.sendMessage({ type, params });
+    response = reply?.ok ? reply.result : { error: reply?.error ?? { message: 'No response from the extension' } };
   } catch (error) {
     console.error('Error from calling extension.', error);
-    response = { error };
+    response = { error: { message: error?.message || String(error) } };
   }
 
-  // return response
-  window.postMessage(
-    { id: message.data.id, ext: EXTENSION_CODE, response },
-    message.origin
-  );
-});
+  port.postMessage({ id, response });
+}
@@ -1,15 +1,84 @@
 import { Event, VerifiedEvent } from 'nostr-tools';
 import {
+  Capability,
   ContentScriptMessageResponseError,
+  GrantedPermission,
+  NostrErrorCode,
+  PermissionRequest,
   PromptParams,
-  RelaysConfig
+  RelaysConfig,
+  SignerInfo
 } from './types';
 
 const EXTENSION_CODE = 'ribbit-signer';
+const CONNECT_EVENT = `${EXTENSION_CODE}:connect`;
+const READY_EVENT = `${EXTENSION_CODE}:ready`;
+// Long enough for the user to unlock and answer a prompt
+const REQUEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+type PendingRequest = {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+/** Requests waiting for an answer, by ID — kept out of reach of the page */
+const requests = new Map<string, PendingRequest>();
+/** Our end of the content script's channel, once handed over — page scripts never see it */
+let port: MessagePort | null = null;
+/** Log requests and results to the console, as set in the extension's options */
+let debug = false;
+
+/** A request ID no other script on the page can guess */
+function createRequestId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** An Error for the page, with the code apps can check instead of the message */
+function createError(code: NostrErrorCode | undefined, message: string): Error & { code?: NostrErrorCode } {
+  const error: Error & { code?: NostrErrorCode } = new Error(`${EXTENSION_CODE}: ${message}`);
+  if (code) error.code = code;
+  return error;
+}
+
+/** Logs a request or result, only in debug mode: params and results may hold decrypted messages */
+function debugLog(id: string, text: string, ...styles: string[]): void {
+  if (!debug) return;
+  console.log(
+    '%c[ribbit-signer:%c' + id + '%c]%c ' + text,
+    'background-color:#f1b912;font-weight:bold;color:white',
+    'background-color:#f1b912;font-weight:bold;color:#a92727',
+    'background-color:#f1b912;color:white;font-weight:bold',
+    'color:auto',
+    ...styles
+  );
+}
 
 window.nostr = {
-  _requests: {},
   _pubkey: null,
+  _listeners: {},
+
+  /**
+   * Subscribe to provider events.
+   * `accountsChanged` fires when the profile used for this site changes; call getPublicKey() again.
+   */
+  on(eventName: string, listener: () => void): void {
+    (this._listeners[eventName] ||= new Set()).add(listener);
+  },
+
+  off(eventName: string, listener: () => void): void {
+    this._listeners[eventName]?.delete(listener);
+  },
+
+  _emit(eventName: string): void {
+    for (const listener of this._listeners[eventName] || []) {
+      try {
+        listener();
+      } catch (error) {
+        console.error(`${EXTENSION_CODE}: ${eventName} listener failed`, error);
+      }
+    }
+  },
 
   async getPublicKey(): Promise<string | ContentScriptMessageResponseError> {
     if (this._pubkey) return this._pubkey;
@@ -23,10 +92,42 @@ window.nostr = {
     return this._call('signEvent', { event });
   },
 
+  /**
+   * Sign several events after a single approval. Resolves with the signed events in the same order.
+   */
+  async signEvents(
+    events: Event[]
+  ): Promise<VerifiedEvent[] | ContentScriptMessageResponseError> {
+    return this._call('signEvents', { events });
+  },
+
   async getRelays(): Promise<RelaysConfig | ContentScriptMessageResponseError> {
     return this._call('getRelays', {});
   },
 
+  /**
+   * Ask for several capabilities up front in one prompt.
+   * Resolves with the grants actually given — possibly fewer than asked for, or none if denied.
+   */
+  async requestPermissions(
+    permissions: PermissionRequest
+  ): Promise<GrantedPermission[] | ContentScriptMessageResponseError> {
+    return this._call('requestPermissions', { permissions });
+  },
+
+  /** Capabilities this site currently holds for the profile it uses */
+  async getPermissions(): Promise<Capability[] | ContentScriptMessageResponseError> {
+    return this._call('getPermissions', {});
+  },
+
+  /**
+   * Describe the signer: name, version and optional APIs, plus this site's grants
+   * and whether signing would first ask for a PIN. Never prompts.
+   */
+  async getInfo(): Promise<SignerInfo | ContentScriptMessageResponseError> {
+    return this._call('getInfo', {});
+  },
+
   nip04: {
     async encrypt(
       peer: string,
@@ -87,71 +188,69 @@ window.nostr = {
   },
 
   _call(type: string, params: PromptParams) {
-    const id = Math.random().toString().slice(-4);
-    console.log(
-      '%c[ribbit-signer:%c' +
-        id +
-        '%c]%c calling %c' +
-        type +
-        '%c with %c' +
-        JSON.stringify(params || {}),
-      'background-color:#f1b912;font-weight:bold;color:white',
-      'background-color:#f1b912;font-weight:bold;color:#a92727',
-      'background-color:#f1b912;color:white;font-weight:bold',
-      'color:auto',
+    const id = createRequestId();
+    debugLog(
+      id,
+      `calling %c${type}%c with %c${JSON.stringify(params || {})}`,
       'font-weight:bold;color:#08589d;font-family:monospace',
       'color:auto',
       'font-weight:bold;color:#90b12d;font-family:monospace'
     );
 
     return new Promise((resolve, reject) => {
-      this._requests[id] = { resolve, reject };
-      window.postMessage(
-        {
-          id,
-          ext: EXTENSION_CODE,
-          type,
-          params
-        },
-        '*'
-      );
+      if (!port) {
+        reject(createError(undefined, 'not connected to the extension'));
+        return;
+      }
+      const timer = setTimeout(() => {
+        requests.delete(id);
+        reject(createError(NostrErrorCode.TIMEOUT, `${type} timed out`));
+      }, REQUEST_TIMEOUT_MS);
+      requests.set(id, { resolve, reject, timer });
+      port.postMessage({ id, type, params });
     });
   }
 };
 
-window.addEventListener('message', message => {
-  if (
-    !message.data ||
-    message.data.response === null ||
-    message.data.response === undefined ||
-    message.data.ext !== EXTENSION_CODE ||
-    !window.nostr._requests[message.data.id]
-  )
+/** Handles one message from the content script, over the private channel */
+function handleContentScriptMessage(data: any): void {
+  if (data?.type === 'init') {
+    debug = !!data.debug;
     return;
+  }
 
-  if (message.data.response.error) {
-    const errorMessage =
-      message.data.response.error.message ?? message.data.response.error;
-    let error = new Error(`${EXTENSION_CODE}: ` + errorMessage);
-    error.stack = message.data.response.error.stack;
-    window.nostr._requests[message.data.id].reject(error);
+  // Profile switched in the extension: drop the cached pubkey and tell the app
+  if (data.type === 'accountsChanged') {
+    window.nostr._pubkey = null;
+    window.nostr._emit('accountsChanged');
+    return;
+  }
+
+  const request = requests.get(data.id);
+  if (!request) return;
+  requests.delete(data.id);
+  clearTimeout(request.timer);
+
+  const { response } = data;
+  if (response?.error) {
+    const errorMessage = response.error.message ?? response.error;
+    request.reject(createError(response.error.code, errorMessage));
   } else {
-    window.nostr._requests[message.data.id].resolve(message.data.response);
+    request.resolve(response);
   }
 
-  console.log(
-    '%c[ribbit-signer:%c' +
-      message.data.id +
-      '%c]%c result: %c' +
-      JSON.stringify(
-        message?.data?.response || message?.data?.response?.error?.message || {}
-      ),
-    'background-color:#f1b912;font-weight:bold;color:white',
-    'background-color:#f1b912;font-weight:bold;color:#a92727',
-    'background-color:#f1b912;color:white;font-weight:bold',
-    'color:auto',
-    'font-weight:bold;color:#08589d'
-  );
+  debugLog(data.id, `result: %c${JSON.stringify(response ?? {})}`, 'font-weight:bold;color:#08589d');
+}
 
-  delete window.nostr._requests[message.data.id];
+// We run at document_start, before any script of the page, and so does the content script.
+// Its channel arrives in a synchronous event, over before page code exists to watch it;
+// a channel offered after the first one can only come from the page and is refused.
+window.addEventListener(CONNECT_EVENT, (event: globalThis.Event) => {
+  const offered = (event as MessageEvent).ports?.[0];
+  if (port || !offered) return;
+  event.preventDefault();
+  port = offered;
+  port.onmessage = message => handleContentScriptMessage(message.data);
 });
+// In case the content script ran first: ask it for the channel now
+window.dispatchEvent(new globalThis.Event(READY_EVENT));
@@ -14,20 +14,39 @@ import {
   type SitePermission,
   type AuditLogEntry,
   type Capability,
+  type PolicyRule,
+  type PolicyRuleAction,
+  type BackupRestoreMode,
+  type SecurityPreferences,
+  type CapabilityGrant,
+  type SigningConstraints,
+  type SiteQuota,
+  type AntiSpamLimits,
+  type AntiSpamHostState,
   CAPABILITY_INFO,
+  PermissionDuration,
 } from './types';
 import * as Storage from './storage';
+import { RULE_CAPABILITIES, dryRunPolicyRules } from './policyRules';
+import { MIN_BACKUP_PASSPHRASE_LENGTH, createBackup, readBackup } from './backup';
+import { isPasskeySupported, createPasskey } from './passkey';
+import { rpcCall } from './rpc';
 import {
   convertHexToUint8Array,
   convertUint8ArrayToHex,
   isHexadecimal,
   isValidRelayURL,
+  isRelayUrlPattern,
+  isValidRelayUrlPattern,
   truncatePublicKeys,
   isPrivateKeyEncrypted,
   derivePublicKeyFromPrivateKey,
   canDerivePublicKeyFromPrivateKey,
   formatPrivateKeyForDisplay,
-  validatePrivateKeyFormat
+  validatePrivateKeyFormat,
+  isNcryptsec,
+  decryptNcryptsec,
+  isValidTagValuePattern
 } from './common';
 import AddCircleIcon from './assets/icons/add-circle-outline.svg';
 import ArrowUpCircleIcon from './assets/icons/arrow-up-circle-outline.svg';
@@ -55,7 +74,85 @@ function debounce<T extends (...args: any[]) => any>(fn: T, ms: number): T {
   }) as any;
 }
 
-type OptionsSection = 'profiles' | 'security' | 'relays' | 'permissions' | 'danger';
+type OptionsSection = 'profiles' | 'security' | 'relays' | 'permissions' | 'rules' | 'antispam' | 'backup' | 'danger';
+
+/** Policy rule being edited — numeric fields are kept as typed text until saved */
+type PolicyRuleDraft = {
+  id: string | null;
+  name: string;
+  enabled: boolean;
+  hostPattern: string;
+  capabilities: Capability[];
+  kinds: string;
+  maxContentLength: string;
+  action: PolicyRuleAction;
+};
+
+/** Constraints of a site's signEvent grant being edited — all fields kept as typed text until saved */
+type GrantConstraintDraft = {
+  host: string;
+  profilePubKey: string;
+  maxContentLength: string;
+  requiredTags: string;
+  forbiddenTags: string;
+  /** One "tag pattern" pair per line */
+  tagValuePatterns: string;
+  maxCreatedAtSkew: string;
+};
+
+/** Site quota being added — numeric fields are kept as typed text until saved */
+type SiteQuotaDraft = {
+  host: string;
+  capability: Capability;
+  kinds: string;
+  limit: string;
+  windowSeconds: number;
+};
+
+/** Security preferences edited in the Anti-Spam section */
+type AntiSpamPreferences = Pick<SecurityPreferences, keyof AntiSpamLimits | 'antiSpamOverrides'>;
+
+/** Per-host anti-spam override being edited — unset limits use the global value */
+type AntiSpamOverrideDraft = { host: string } & Partial<AntiSpamLimits>;
+
+/** Security preferences edited in the Security section's auto-lock controls */
+type AutoLockPreferences = Pick<
+  SecurityPreferences,
+  'lockOnIdleMinutes' | 'lockOnScreenLock' | 'lockOnAllWindowsClosed' | 'renewPinCacheOnUse'
+>;
+
+const RULE_ACTION_LABELS: Record<PolicyRuleAction, string> = {
+  approve: 'Approve',
+  prompt: 'Always prompt',
+  reject: 'Reject',
+};
+
+/** Anti-spam limits and the values offered for each */
+const ANTI_SPAM_FIELDS: { key: keyof AntiSpamLimits; label: string; options: number[]; hint?: string }[] = [
+  { key: 'rateLimitMax', label: 'Requests per window', options: [5, 10, 20, 50, 100] },
+  { key: 'rateLimitWindowMs', label: 'Rate-limit window', options: [1000, 5000, 10000, 60000] },
+  {
+    key: 'promptQueueCap',
+    label: 'Open prompts',
+    options: [5, 10, 25, 50],
+    hint: 'Across all sites. Further requests are blocked until open prompts are answered.',
+  },
+  { key: 'rejectionCooldownMs', label: 'Cooldown after a rejection', options: [0, 10000, 30000, 60000, 300000] },
+  { key: 'dedupTtlMs', label: 'Merge identical requests for', options: [5000, 30000, 60000] },
+];
+
+function formatAntiSpamLimit(key: keyof AntiSpamLimits, value: number): string {
+  if (key === 'rateLimitMax') return `${value} requests`;
+  if (key === 'promptQueueCap') return `${value} prompts`;
+  if (value === 0) return 'Off';
+  return value < 60000 ? `${value / 1000} seconds` : `${value / 60000} minute${value === 60000 ? '' : 's'}`;
+}
+
+const QUOTA_WINDOW_LABELS: Record<number, string> = {
+  3600: 'per hour',
+  86400: 'per day',
+  604800: 'per week',
+};
 
 interface OptionsState {
   activeSection: OptionsSection;
@@ -65,7 +162,10 @@ interface OptionsState {
   isCreatingProfile: boolean;
   newProfileName: string;
   newProfileKey: string;
+  newProfileBunkerUri: string;
+  isConnectingRemoteSigner: boolean;
   profileExportJson: string;
+  profileExportLabel: string;
   profileImportJson: string;
   isExportModalShown: boolean;
   isImportModalShown: boolean;
@@ -78,13 +178,33 @@ interface OptionsState {
   sitePermissions: SitePermissions;
   expandedSiteHost: string | null;
   siteAuditEntries: AuditLogEntry[];
+  constraintDraft: GrantConstraintDraft | null;
+  quotaDraft: SiteQuotaDraft | null;
   message: string;
   messageType: string;
   version: string;
   pinEnabled: boolean;
   pinCacheDuration: number;
+  pinLockoutThreshold: number;
+  zapWarningThresholdSats: number;
+  debugLogging: boolean;
+  autoLock: AutoLockPreferences;
+  antiSpam: AntiSpamPreferences;
+  overrideDraft: AntiSpamOverrideDraft | null;
+  antiSpamState: AntiSpamHostState[];
+  hasPasskey: boolean;
   relayAuthGrants: any;
+  newTrustedRelay: string;
   sessionTokenCount: number;
+  policyRules: PolicyRule[];
+  ruleDraft: PolicyRuleDraft | null;
+  ruleDryRun: { entry: AuditLogEntry; rule: PolicyRule | null }[] | null;
+  backupPassphrase: string;
+  backupPassphraseConfirm: string;
+  restoreFileName: string;
+  restoreFileContents: string;
+  restorePassphrase: string;
+  restoreMode: BackupRestoreMode;
 }
 
 class Options extends Component<{}, OptionsState> {
@@ -96,7 +216,10 @@ class Options extends Component<{}, OptionsState> {
     isCreatingProfile: false,
     newProfileName: '',
     newProfileKey: '',
+    newProfileBunkerUri: '',
+    isConnectingRemoteSigner: false,
     profileExportJson: '',
+    profileExportLabel: '',
     profileImportJson: '',
     isExportModalShown: false,
     isImportModalShown: false,
@@ -109,13 +232,40 @@ class Options extends Component<{}, OptionsState> {
     sitePermissions: {},
     expandedSiteHost: null,
     siteAuditEntries: [],
+    constraintDraft: null,
+    quotaDraft: null,
     message: '',
     messageType: 'info',
     version: '0.0.0',
     pinEnabled: false,
     pinCacheDuration: 10 * 1000,
+    pinLockoutThreshold: 0,
+    zapWarningThresholdSats: 10000,
+    debugLogging: false,
+    autoLock: { lockOnIdleMinutes: 0, lockOnScreenLock: false, lockOnAllWindowsClosed: false, renewPinCacheOnUse: false },
+    antiSpam: {
+      rateLimitMax: 10,
+      rateLimitWindowMs: 5000,
+      promptQueueCap: 25,
+      rejectionCooldownMs: 30000,
+      dedupTtlMs: 30000,
+      antiSpamOverrides: {},
+    },
+    overrideDraft: null,
+    antiSpamState: [],
+    hasPasskey: false,
     relayAuthGrants: {},
+    newTrustedRelay: '',
     sessionTokenCount: 0,
+    policyRules: [],
+    ruleDraft: null,
+    ruleDryRun: null,
+    backupPassphrase: '',
+    backupPassphraseConfirm: '',
+    restoreFileName: '',
+    restoreFileContents: '',
+    restorePassphrase: '',
+    restoreMode: 'merge',
   };
 
   private messageTimer: any = null;
@@ -141,11 +291,32 @@ class Options extends Component<{}, OptionsState> {
     // Check PIN protection status
     Storage.isPinEnabled().then(enabled => this.setState({ pinEnabled: enabled }));
     Storage.getPinCacheDuration().then(duration => this.setState({ pinCacheDuration: duration }));
+    Storage.readPasskeyUnlock().then(passkey => this.setState({ hasPasskey: !!passkey }));
+    Storage.readSecurityPreferences().then(prefs => this.setState({
+      pinLockoutThreshold: prefs.pinLockoutThreshold,
+      zapWarningThresholdSats: prefs.zapWarningThresholdSats,
+      debugLogging: prefs.debugLogging,
+      autoLock: {
+        lockOnIdleMinutes: prefs.lockOnIdleMinutes,
+        lockOnScreenLock: prefs.lockOnScreenLock,
+        lockOnAllWindowsClosed: prefs.lockOnAllWindowsClosed,
+        renewPinCacheOnUse: prefs.renewPinCacheOnUse,
+      },
+      antiSpam: {
+        rateLimitMax: prefs.rateLimitMax,
+        rateLimitWindowMs: prefs.rateLimitWindowMs,
+        promptQueueCap: prefs.promptQueueCap,
+        rejectionCooldownMs: prefs.rejectionCooldownMs,
+        dedupTtlMs: prefs.dedupTtlMs,
+        antiSpamOverrides: prefs.antiSpamOverrides,
+      },
+    }));
     Storage.readRelayAuthGrants().then(grants => this.setState({ relayAuthGrants: grants }));
     Storage.countActiveSessionTokens().then(count => this.setState({ sessionTokenCount: count }));
 
     // Load site permissions (global, not per-profile)
     Storage.readSitePermissions().then(perms => this.setState({ sitePermissions: perms }));
+    Storage.readPolicyRules().then(rules => this.setState({ policyRules: rules }));
   }
 
   showMessage = (msg: string, type: string = 'info', timeout: number = 3000) => {
@@ -175,7 +346,7 @@ class Options extends Component<{}, OptionsState> {
       editingName: profile.name || '',
       relays: this.convertRelaysToUIArray(profile.relays),
       pinEnabled: currentPinEnabled,
-      privateKey: formatPrivateKeyForDisplay(profile.privateKey || '', currentPinEnabled),
+      privateKey: formatPrivateKeyForDisplay(profile.privateKey || '', currentPinEnabled || !!profile.ownPin),
       isKeyHidden: true,
       isLoadingProfile: false,
       isCreatingProfile: false,
@@ -198,6 +369,7 @@ class Options extends Component<{}, OptionsState> {
       isCreatingProfile: true,
       newProfileName: '',
       newProfileKey: '',
+      newProfileBunkerUri: '',
       privateKey: '',
       isKeyHidden: true,
     });
@@ -247,7 +419,61 @@ class Options extends Component<{}, OptionsState> {
   handleExportProfileClick = () => {
     const profile = this.getSelectedProfile();
     if (!profile) return;
-    this.setState({ profileExportJson: JSON.stringify(profile), isExportModalShown: true });
+    this.setState({
+      profileExportJson: JSON.stringify(profile),
+      profileExportLabel: 'Profile JSON (contains your private key):',
+      isExportModalShown: true,
+    });
+  };
+
+  /** Export the selected profile's key as a password-encrypted NIP-49 ncryptsec. */
+  handleExportNcryptsecClick = async () => {
+    const password = window.prompt('Choose a password to encrypt the key with:');
+    if (!password) return;
+    if (window.prompt('Enter the password again:') !== password) {
+      this.showMessage('Passwords do not match.', 'warning');
+      return;
+    }
+    let ncryptsec: string;
+    try {
+      ({ ncryptsec } = await rpcCall('exportNcryptsec', { publicKey: this.state.selectedProfilePubKey, password }));
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Export failed.', 'warning');
+      return;
+    }
+    this.setState({
+      profileExportJson: ncryptsec,
+      profileExportLabel: 'NIP-49 encrypted private key (needs the password to import):',
+      isExportModalShown: true,
+    });
+  };
+
+  /** Give the selected profile its own PIN or passphrase, or return it to the shared PIN. */
+  handleProfilePinClick = async () => {
+    const profile = this.getSelectedProfile();
+    if (!profile) return;
+    const publicKey = this.state.selectedProfilePubKey;
+    try {
+      if (profile.ownPin) {
+        const pin = window.prompt(`Enter the PIN or passphrase of "${profile.name}":`);
+        if (!pin) return;
+        await rpcCall('clearProfilePin', { publicKey, pin });
+      } else {
+        const pin = window.prompt('Choose a PIN or passphrase for this profile (at least 4 characters):');
+        if (!pin) return;
+        if (window.prompt('Enter it again:') !== pin) {
+          this.showMessage('PINs do not match.', 'warning');
+          return;
+        }
+        await rpcCall('setProfilePin', { publicKey, pin });
+      }
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Failed to update the profile PIN.', 'warning');
+      return;
+    }
+    const profiles = await Storage.readProfiles();
+    this.setState({ profiles }, this.reloadSelectedProfile);
+    this.showMessage(profile.ownPin ? 'Profile now uses the shared PIN.' : 'Profile PIN set.', 'success');
   };
 
   handleExportProfileCopyClick = () => {
@@ -343,7 +569,7 @@ class Options extends Component<{}, OptionsState> {
       return;
     }
     if (!validatePrivateKeyFormat(newProfileKey)) {
-      this.showMessage('Invalid key format. Use nsec1... or 64-char hex.', 'warning');
+      this.showMessage('Invalid key format. Use nsec1..., ncryptsec1... or 64-char hex.', 'warning');
       return;
     }
 
@@ -351,6 +577,15 @@ class Options extends Component<{}, OptionsState> {
       let privateKeyIntArray: Uint8Array | undefined;
       if (isHexadecimal(newProfileKey)) {
         privateKeyIntArray = convertHexToUint8Array(newProfileKey);
+      } else if (isNcryptsec(newProfileKey)) {
+        const password = window.prompt('Enter the password for this ncryptsec key:');
+        if (!password) return;
+        try {
+          privateKeyIntArray = convertHexToUint8Array(decryptNcryptsec(newProfileKey, password));
+        } catch (error) {
+          this.showMessage('Could not decrypt the ncryptsec key. Check the password.', 'warning');
+          return;
+        }
       } else {
         const { type, data } = nip19.decode(newProfileKey);
         if (type === 'nsec') privateKeyIntArray = data as Uint8Array;
@@ -374,15 +609,12 @@ class Options extends Component<{}, OptionsState> {
 
       const pinEnabled = await Storage.isPinEnabled();
       if (pinEnabled) {
-        const resp: any = await browser.runtime.sendMessage({
-          type: 'encryptPrivateKey',
-          privateKey: hexPrivateKey,
-        });
-        if (!resp?.success || !resp?.encryptedKey) {
-          this.showMessage(resp?.error || 'PIN encryption failed.', 'warning');
+        try {
+          newProfile.privateKey = (await rpcCall('encryptPrivateKey', { privateKey: hexPrivateKey })).encryptedKey;
+        } catch (error: any) {
+          this.showMessage(error?.message || 'PIN encryption failed.', 'warning');
           return;
         }
-        newProfile.privateKey = resp.encryptedKey;
       } else {
         newProfile.privateKey = hexPrivateKey;
       }
@@ -398,7 +630,7 @@ class Options extends Component<{}, OptionsState> {
             'private_key', 'profiles', 'pin_enabled', 'encrypted_private_key',
             'active_public_key', 'pin_cache_duration',
             'session_tokens', 'relay_auth_grants',
-            'site_permissions', 'security_preferences',
+            'site_permissions', 'security_preferences', 'policy_rules', 'pin_attempts', 'passkey_unlock',
           ];
           const essentials = await browser.storage.local.get(keysToKeep);
           await browser.storage.local.clear();
@@ -424,6 +656,38 @@ class Options extends Component<{}, OptionsState> {
     }
   };
 
+  /**
+   * Save a new profile backed by a NIP-46 remote signer.
+   * The background connects to the bunker and tells us which pubkey it signs as.
+   */
+  saveNewRemoteProfile = async () => {
+    const { newProfileBunkerUri, newProfileName, profiles } = this.state;
+    this.setState({ isConnectingRemoteSigner: true });
+    try {
+      const resp = await rpcCall('connectRemoteSigner', { bunkerUri: newProfileBunkerUri });
+      if (resp.pubKey in profiles) {
+        this.showMessage('A profile with this key already exists.', 'warning');
+        return;
+      }
+
+      const newProfile: ProfileConfig = { privateKey: '', remoteSigner: resp.remoteSigner };
+      const trimmedName = newProfileName.trim();
+      if (trimmedName) newProfile.name = trimmedName;
+
+      const updatedProfiles = { ...profiles, [resp.pubKey]: newProfile };
+      await Storage.updateProfiles(updatedProfiles);
+      this.setState({ profiles: updatedProfiles, isCreatingProfile: false }, () => {
+        this.loadAndSelectProfile(resp.pubKey);
+      });
+      this.showMessage('Remote signer connected!', 'success');
+    } catch (error: any) {
+      console.error('[profiles] saveNewRemoteProfile error:', error);
+      this.showMessage('Connect failed: ' + (error?.message || 'unknown error'), 'warning');
+    } finally {
+      this.setState({ isConnectingRemoteSigner: false });
+    }
+  };
+
   isNewKeyValid = () => {
     const key = this.state.newProfileKey;
     return key !== '' && validatePrivateKeyFormat(key);
@@ -450,10 +714,11 @@ class Options extends Component<{}, OptionsState> {
   handleProtectWithPinClick = async () => {
     const mode = this.state.pinEnabled ? 'disable' : 'setup';
     try {
-      await browser.runtime.sendMessage({ type: 'openPinPrompt', mode });
+      await rpcCall('openPinPrompt', { mode });
       setTimeout(async () => {
         const enabled = await Storage.isPinEnabled();
-        this.setState({ pinEnabled: enabled });
+        const passkey = await Storage.readPasskeyUnlock();
+        this.setState({ pinEnabled: enabled, hasPasskey: !!passkey });
       }, 1000);
     } catch (error) {
       console.error('Error opening PIN prompt:', error);
@@ -467,6 +732,58 @@ class Options extends Component<{}, OptionsState> {
     this.showMessage('PIN cache duration updated', 'success');
   };
 
+  /** Create a passkey and let the background store the PIN encrypted with its PRF output. */
+  handleSetUpPasskeyClick = async () => {
+    let registration;
+    try {
+      registration = await createPasskey();
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Passkey creation failed.', 'warning');
+      return;
+    }
+    try {
+      await rpcCall('registerPasskey', registration);
+    } catch (error: any) {
+      this.showMessage(error?.message || 'Passkey setup failed.', 'warning');
+      return;
+    }
+    this.setState({ hasPasskey: true });
+    this.showMessage('Passkey set up', 'success');
+  };
+
+  handleRemovePasskeyClick = async () => {
+    if (!window.confirm('Remove the passkey? You will unlock with your PIN only.')) return;
+    await rpcCall('removePasskey', {});
+    this.setState({ hasPasskey: false });
+    this.showMessage('Passkey removed', 'success');
+  };
+
+  handlePinLockoutThresholdChange = async (e: any) => {
+    const threshold = parseInt(e.target.value, 10);
+    this.setState({ pinLockoutThreshold: threshold });
+    await Storage.updateSecurityPreference('pinLockoutThreshold', threshold);
+    this.showMessage('PIN lockout updated', 'success');
+  };
+
+  handleZapWarningThresholdChange = async (e: any) => {
+    const threshold = parseInt(e.target.value, 10);
+    this.setState({ zapWarningThresholdSats: threshold });
+    await Storage.updateSecurityPreference('zapWarningThresholdSats', threshold);
+    this.showMessage('Zap warning threshold updated', 'success');
+  };
+
+  handleDebugLoggingChange = async (enabled: boolean) => {
+    this.setState({ debugLogging: enabled });
+    await Storage.updateSecurityPreference('debugLogging', enabled);
+    this.showMessage(enabled ? 'Debug logging on — reload open pages to apply' : 'Debug logging off', 'success');
+  };
+
+  handleAutoLockChange = async <K extends keyof AutoLockPreferences>(key: K, value: SecurityPreferences[K]) => {
+    this.setState({ autoLock: { ...this.state.autoLock, [key]: value } });
+    await Storage.updateSecurityPreference(key, value);
+    this.showMessage('Auto-lock updated', 'success');
+  };
+
   handleClearSessionTokens = async () => {
     await Storage.clearSessionTokens();
     this.setState({ sessionTokenCount: 0 });
@@ -480,6 +797,19 @@ class Options extends Component<{}, OptionsState> {
     this.showMessage(`Auth grant removed for ${relayUrl}`, 'info');
   };
 
+  isTrustedRelayValid = () => {
+    const url = this.state.newTrustedRelay.trim();
+    return isRelayUrlPattern(url) ? isValidRelayUrlPattern(url) : isValidRelayURL(url);
+  };
+
+  handleAddTrustedRelay = async () => {
+    if (!this.isTrustedRelayValid()) return;
+    await Storage.addRelayAuthGrant(this.state.newTrustedRelay.trim(), PermissionDuration.FOREVER);
+    const grants = await Storage.readRelayAuthGrants();
+    this.setState({ relayAuthGrants: grants, newTrustedRelay: '' });
+    this.showMessage('Trusted relay added', 'success');
+  };
+
   //#endregion Private key
 
   //#region Site Permissions
@@ -489,14 +819,138 @@ class Options extends Component<{}, OptionsState> {
     this.setState({ sitePermissions: perms });
   };
 
-  handleRevokeGrant = async (host: string, capability: Capability) => {
-    await Storage.revokeGrant(host, capability);
-    this.showMessage(`Revoked ${CAPABILITY_INFO[capability]?.label || capability} from ${host}`);
+  handleRevokeGrant = async (host: string, capability: Capability, profilePubKey: string) => {
+    await Storage.revokeGrant(host, capability, profilePubKey);
+    this.showMessage(
+      `Revoked ${CAPABILITY_INFO[capability]?.label || capability} from ${host} for ${this.profileLabel(profilePubKey)}`
+    );
+    this.reloadSitePermissions();
+  };
+
+  handleEditConstraints = (host: string, grant: CapabilityGrant) => {
+    const c = grant.constraints || {};
+    this.setState({
+      constraintDraft: {
+        host,
+        profilePubKey: grant.profilePubKey,
+        maxContentLength: c.maxContentLength !== undefined ? String(c.maxContentLength) : '',
+        requiredTags: (c.requiredTags || []).join(', '),
+        forbiddenTags: (c.forbiddenTags || []).join(', '),
+        tagValuePatterns: Object.entries(c.tagValuePatterns || {})
+          .map(([name, pattern]) => `${name} ${pattern}`)
+          .join('\n'),
+        maxCreatedAtSkew: c.maxCreatedAtSkew !== undefined ? String(c.maxCreatedAtSkew) : '',
+      },
+    });
+  };
+
+  updateConstraintDraft = (patch: Partial<GrantConstraintDraft>) => {
+    const { constraintDraft } = this.state;
+    if (constraintDraft) this.setState({ constraintDraft: { ...constraintDraft, ...patch } });
+  };
+
+  /**
+   * Validates a draft and converts it to grant constraints
+   * @returns The constraints (undefined when every field is empty), or an error message
+   */
+  parseConstraintDraft(draft: GrantConstraintDraft): SigningConstraints | undefined | string {
+    const constraints: SigningConstraints = {};
+
+    const maxContentLength = draft.maxContentLength.trim();
+    if (maxContentLength) {
+      if (!/^[1-9]\d*$/.test(maxContentLength)) return 'Content length must be a positive number';
+      constraints.maxContentLength = parseInt(maxContentLength, 10);
+    }
+    const maxCreatedAtSkew = draft.maxCreatedAtSkew.trim();
+    if (maxCreatedAtSkew) {
+      if (!/^[1-9]\d*$/.test(maxCreatedAtSkew)) return 'Time window must be a positive number';
+      constraints.maxCreatedAtSkew = parseInt(maxCreatedAtSkew, 10);
+    }
+
+    const requiredTags = draft.requiredTags.split(/[\s,]+/).filter(Boolean);
+    if (requiredTags.length > 0) constraints.requiredTags = requiredTags;
+    const forbiddenTags = draft.forbiddenTags.split(/[\s,]+/).filter(Boolean);
+    if (forbiddenTags.length > 0) constraints.forbiddenTags = forbiddenTags;
+
+    const tagValuePatterns: Record<string, string> = {};
+    for (const line of draft.tagValuePatterns.split('\n').map(l => l.trim()).filter(Boolean)) {
+      const [name, ...rest] = line.split(/\s+/);
+      const pattern = rest.join(' ');
+      if (!pattern) return `Give tag "${name}" a pattern`;
+      if (!isValidTagValuePattern(pattern)) return `Invalid pattern for tag "${name}"`;
+      tagValuePatterns[name] = pattern;
+    }
+    if (Object.keys(tagValuePatterns).length > 0) constraints.tagValuePatterns = tagValuePatterns;
+
+    return Object.keys(constraints).length > 0 ? constraints : undefined;
+  }
+
+  handleSaveConstraints = async () => {
+    const { constraintDraft } = this.state;
+    if (!constraintDraft) return;
+    const constraints = this.parseConstraintDraft(constraintDraft);
+    if (typeof constraints === 'string') {
+      this.showMessage(constraints, 'warning');
+      return;
+    }
+    await Storage.setGrantConstraints(constraintDraft.host, constraintDraft.profilePubKey, constraints);
+    this.setState({ constraintDraft: null });
+    this.showMessage(
+      constraints ? `Signing constraints saved for ${constraintDraft.host}` : `Signing constraints removed for ${constraintDraft.host}`,
+      'success'
+    );
+    this.reloadSitePermissions();
+  };
+
+  handleNewQuota = (host: string) => {
+    this.setState({
+      quotaDraft: { host, capability: 'signEvent', kinds: '', limit: '', windowSeconds: 86400 },
+    });
+  };
+
+  updateQuotaDraft = (patch: Partial<SiteQuotaDraft>) => {
+    const { quotaDraft } = this.state;
+    if (quotaDraft) this.setState({ quotaDraft: { ...quotaDraft, ...patch } });
+  };
+
+  handleSaveQuota = async () => {
+    const { quotaDraft } = this.state;
+    if (!quotaDraft) return;
+    const limit = quotaDraft.limit.trim();
+    if (!/^[1-9]\d*$/.test(limit)) {
+      this.showMessage('Limit must be a positive number', 'warning');
+      return;
+    }
+    const kindTokens = quotaDraft.capability === 'signEvent' ? quotaDraft.kinds.split(/[\s,]+/).filter(Boolean) : [];
+    if (kindTokens.some(k => !/^\d+$/.test(k))) {
+      this.showMessage('Kinds must be a comma-separated list of numbers', 'warning');
+      return;
+    }
+    await Storage.addSiteQuota(quotaDraft.host, {
+      capability: quotaDraft.capability,
+      kinds: kindTokens.map(k => parseInt(k, 10)),
+      limit: parseInt(limit, 10),
+      windowSeconds: quotaDraft.windowSeconds,
+    });
+    this.setState({ quotaDraft: null });
+    this.showMessage(`Quota added for ${quotaDraft.host}`, 'success');
+    this.reloadSitePermissions();
+  };
+
+  handleRemoveQuota = async (host: string, quotaId: string) => {
+    await Storage.removeSiteQuota(host, quotaId);
+    this.showMessage(`Quota removed for ${host}`);
     this.reloadSitePermissions();
   };
 
+  describeQuota(quota: SiteQuota): string {
+    const label = CAPABILITY_INFO[quota.capability]?.label || quota.capability;
+    const kinds = quota.kinds.length > 0 ? ` (kind ${quota.kinds.join(', ')})` : '';
+    return `${quota.limit} × ${label}${kinds} ${QUOTA_WINDOW_LABELS[quota.windowSeconds] ?? `per ${quota.windowSeconds}s`}`;
+  }
+
   handleRevokeAllGrants = async (host: string) => {
-    if (window.confirm(`Revoke all permissions from ${host}?`)) {
+    if (window.confirm(`Revoke all permissions from ${host}, for every profile?`)) {
       await Storage.revokeAllGrants(host);
       this.showMessage(`Revoked all permissions from ${host}`);
       this.reloadSitePermissions();
@@ -518,15 +972,227 @@ class Options extends Component<{}, OptionsState> {
       return;
     }
     try {
-      const r: any = await browser.runtime.sendMessage({ type: 'getActivityLogByHost', host });
-      this.setState({ expandedSiteHost: host, siteAuditEntries: r?.entries || [] });
+      const r = await rpcCall('getActivityLogByHost', { host });
+      this.setState({ expandedSiteHost: host, siteAuditEntries: r.entries });
     } catch {
       this.setState({ expandedSiteHost: host, siteAuditEntries: [] });
     }
   };
 
+  profileLabel(pubKey: string): string {
+    const profile = this.state.profiles[pubKey];
+    if (profile?.name) return profile.name;
+    try {
+      return truncatePublicKeys(nip19.npubEncode(pubKey), 10, 10) as string;
+    } catch {
+      return pubKey.substring(0, 12) + '…';
+    }
+  }
+
   //#endregion Site Permissions
 
+  //#region Policy Rules
+
+  savePolicyRules = async (rules: PolicyRule[]) => {
+    await Storage.writePolicyRules(rules);
+    // A previous dry-run no longer reflects the rule list
+    this.setState({ policyRules: rules, ruleDryRun: null });
+  };
+
+  handleNewRule = () => {
+    this.setState({
+      ruleDraft: {
+        id: null,
+        name: '',
+        enabled: true,
+        hostPattern: '*',
+        capabilities: [],
+        kinds: '',
+        maxContentLength: '',
+        action: 'approve',
+      },
+    });
+  };
+
+  handleEditRule = (rule: PolicyRule) => {
+    this.setState({
+      ruleDraft: {
+        ...rule,
+        kinds: rule.kinds.join(', '),
+        maxContentLength: rule.maxContentLength !== undefined ? String(rule.maxContentLength) : '',
+      },
+    });
+  };
+
+  updateRuleDraft = (patch: Partial<PolicyRuleDraft>) => {
+    const { ruleDraft } = this.state;
+    if (ruleDraft) this.setState({ ruleDraft: { ...ruleDraft, ...patch } });
+  };
+
+  toggleRuleDraftCapability = (capability: Capability) => {
+    const capabilities = this.state.ruleDraft?.capabilities ?? [];
+    this.updateRuleDraft({
+      capabilities: capabilities.includes(capability)
+        ? capabilities.filter(c => c !== capability)
+        : [...capabilities, capability],
+    });
+  };
+
+  /**
+   * Validates a draft and converts it to a rule
+   * @returns The rule, or an error message
+   */
+  parseRuleDraft(draft: PolicyRuleDraft): PolicyRule | string {
+    const name = draft.name.trim();
+    if (!name) return 'Give the rule a name';
+    const hostPattern = draft.hostPattern.trim().toLowerCase();
+    if (!hostPattern) return 'Enter a host pattern, or * for any host';
+
+    const kindTokens = draft.kinds.split(/[\s,]+/).filter(Boolean);
+    if (kindTokens.some(k => !/^\d+$/.test(k))) return 'Kinds must be a comma-separated list of numbers';
+
+    const maxContentLength = draft.maxContentLength.trim();
+    if (maxContentLength && !/^[1-9]\d*$/.test(maxContentLength)) {
+      return 'Content length must be a positive number';
+    }
+
+    return {
+      id: draft.id ?? Math.random().toString(36).slice(2),
+      name,
+      enabled: draft.enabled,
+      hostPattern,
+      capabilities: draft.capabilities,
+      kinds: kindTokens.map(k => parseInt(k, 10)),
+      maxContentLength: maxContentLength ? parseInt(maxContentLength, 10) : undefined,
+      action: draft.action,
+    };
+  }
+
+  handleSaveRule = async () => {
+    const { ruleDraft, policyRules } = this.state;
+    if (!ruleDraft) return;
+    const rule = this.parseRuleDraft(ruleDraft);
+    if (typeof rule === 'string') {
+      this.showMessage(rule, 'warning');
+      return;
+    }
+    const exists = policyRules.some(r => r.id === rule.id);
+    await this.savePolicyRules(
+      exists ? policyRules.map(r => (r.id === rule.id ? rule : r)) : [...policyRules, rule]
+    );
+    this.setState({ ruleDraft: null });
+    this.showMessage(`Rule "${rule.name}" saved`, 'success');
+  };
+
+  handleMoveRule = (index: number, delta: number) => {
+    const rules = [...this.state.policyRules];
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    [rules[index], rules[target]] = [rules[target], rules[index]];
+    this.savePolicyRules(rules);
+  };
+
+  handleToggleRule = (index: number) => {
+    this.savePolicyRules(
+      this.state.policyRules.map((r, i) => (i === index ? { ...r, enabled: !r.enabled } : r))
+    );
+  };
+
+  handleDeleteRule = async (rule: PolicyRule) => {
+    if (window.confirm(`Delete rule "${rule.name}"?`)) {
+      await this.savePolicyRules(this.state.policyRules.filter(r => r.id !== rule.id));
+      this.showMessage(`Rule "${rule.name}" deleted`);
+    }
+  };
+
+  handleDryRunRules = async () => {
+    try {
+      const r = await rpcCall('getActivityLog', {});
+      const results = dryRunPolicyRules(this.state.policyRules, r.entries);
+      this.setState({ ruleDryRun: results.reverse() });
+    } catch (err: any) {
+      this.showMessage('Could not read the audit log: ' + err?.message, 'warning');
+    }
+  };
+
+  describeRule(rule: PolicyRule): string {
+    const parts = [rule.hostPattern === '*' ? 'any host' : rule.hostPattern];
+    parts.push(
+      rule.capabilities.length > 0
+        ? rule.capabilities.map(c => CAPABILITY_INFO[c]?.label || c).join(', ')
+        : 'any request'
+    );
+    if (rule.kinds.length > 0) parts.push(`kind ${rule.kinds.join(', ')}`);
+    if (rule.maxContentLength !== undefined) parts.push(`content < ${rule.maxContentLength} chars`);
+    return `${parts.join(' · ')} → ${RULE_ACTION_LABELS[rule.action]}`;
+  }
+
+  //#endregion Policy Rules
+
+  //#region Anti-Spam
+
+  handleAntiSpamChange = async <K extends keyof AntiSpamPreferences>(key: K, value: SecurityPreferences[K]) => {
+    this.setState({ antiSpam: { ...this.state.antiSpam, [key]: value } });
+    await Storage.updateSecurityPreference(key, value);
+    this.showMessage('Anti-spam limits updated', 'success');
+  };
+
+  handleEditOverride = (host: string) => {
+    this.setState({ overrideDraft: { host, ...this.state.antiSpam.antiSpamOverrides[host] } });
+  };
+
+  updateOverrideDraft = (patch: Partial<AntiSpamOverrideDraft>) => {
+    const { overrideDraft } = this.state;
+    if (overrideDraft) this.setState({ overrideDraft: { ...overrideDraft, ...patch } });
+  };
+
+  handleSaveOverride = async () => {
+    const { overrideDraft, antiSpam } = this.state;
+    if (!overrideDraft) return;
+    const { host: rawHost, ...limits } = overrideDraft;
+    const host = rawHost.trim().toLowerCase();
+    if (!host) {
+      this.showMessage('Enter the host to override', 'warning');
+      return;
+    }
+    const set = Object.fromEntries(Object.entries(limits).filter(([, v]) => v !== undefined));
+    if (Object.keys(set).length === 0) {
+      this.showMessage('Change at least one limit from its default', 'warning');
+      return;
+    }
+    await Storage.setAntiSpamOverride(host, set);
+    this.setState({
+      antiSpam: { ...antiSpam, antiSpamOverrides: { ...antiSpam.antiSpamOverrides, [host]: set } },
+      overrideDraft: null,
+    });
+    this.showMessage(`Anti-spam limits saved for ${host}`, 'success');
+  };
+
+  handleRemoveOverride = async (host: string) => {
+    const { antiSpam } = this.state;
+    await Storage.setAntiSpamOverride(host, null);
+    const { [host]: _, ...antiSpamOverrides } = antiSpam.antiSpamOverrides;
+    this.setState({ antiSpam: { ...antiSpam, antiSpamOverrides } });
+    this.showMessage(`${host} uses the global limits again`);
+  };
+
+  loadAntiSpamState = async () => {
+    try {
+      const r = await rpcCall('getAntiSpamState', {});
+      this.setState({ antiSpamState: r.hosts });
+    } catch {
+      this.setState({ antiSpamState: [] });
+    }
+  };
+
+  handleResetAntiSpamState = async (host: string) => {
+    await rpcCall('resetAntiSpamState', { host });
+    this.showMessage(`Rate limit and cooldown reset for ${host}`);
+    this.loadAntiSpamState();
+  };
+
+  //#endregion Anti-Spam
+
   //#region Relays
 
   convertRelaysToUIArray(relays?: RelaysConfig): RelayConfig[] {
@@ -606,6 +1272,58 @@ class Options extends Component<{}, OptionsState> {
 
   //#endregion Relays
 
+  //#region Backup
+
+  isBackupPassphraseValid = () => {
+    const { backupPassphrase, backupPassphraseConfirm } = this.state;
+    return backupPassphrase.length >= MIN_BACKUP_PASSPHRASE_LENGTH && backupPassphrase === backupPassphraseConfirm;
+  };
+
+  handleCreateBackupClick = async () => {
+    let contents: string;
+    try {
+      contents = await createBackup(this.state.backupPassphrase);
+    } catch (error: any) {
+      this.showMessage(`Backup failed: ${error?.message}`, 'warning');
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ribbit-signer-backup-${format(new Date(), 'yyyy-MM-dd')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    this.setState({ backupPassphrase: '', backupPassphraseConfirm: '' });
+    this.showMessage('Backup downloaded. Keep the file and its passphrase safe.', 'success');
+  };
+
+  handleRestoreFileChange = async (e: any) => {
+    const file: File | undefined = e.target.files?.[0];
+    if (!file) return;
+    this.setState({ restoreFileName: file.name, restoreFileContents: await file.text() });
+  };
+
+  handleRestoreBackupClick = async () => {
+    const { restoreFileContents, restorePassphrase, restoreMode } = this.state;
+    try {
+      // readBackup validates everything before restoreBackup writes anything
+      const backup = await readBackup(restoreFileContents, restorePassphrase);
+      const count = Object.keys(backup.profiles).length;
+      const question = restoreMode === 'replace'
+        ? `Replace all profiles, permissions and settings in this browser with the backup (${count} profiles)?`
+        : `Add the backup's ${count} profiles, permissions and settings? Existing entries are kept.`;
+      if (!window.confirm(question)) return;
+      // The background checks merged keys against the PIN it holds, and locks after a replace
+      await rpcCall('restoreBackup', { backup, mode: restoreMode });
+    } catch (error: any) {
+      this.showMessage(`Restore failed: ${error?.message}`, 'warning', 6000);
+      return;
+    }
+    window.location.reload();
+  };
+
+  //#endregion Backup
+
   handleClearStorageClick = async () => {
     if (confirm('Are you sure you want to delete everything from this browser?')) {
       await Storage.empty();
@@ -613,7 +1331,10 @@ class Options extends Component<{}, OptionsState> {
     }
   };
 
-  setSection = (s: OptionsSection) => { this.setState({ activeSection: s }); };
+  setSection = (s: OptionsSection) => {
+    this.setState({ activeSection: s });
+    if (s === 'antispam') this.loadAntiSpamState();
+  };
 
   renderSidebar() {
     const { activeSection, version } = this.state;
@@ -622,6 +1343,9 @@ class Options extends Component<{}, OptionsState> {
       { id: 'security',    label: 'Security' },
       { id: 'relays',      label: 'Relays' },
       { id: 'permissions', label: 'Permissions' },
+      { id: 'rules',       label: 'Rules' },
+      { id: 'antispam',    label: 'Anti-Spam' },
+      { id: 'backup',      label: 'Backup' },
       { id: 'danger',      label: 'Danger Zone' },
     ];
     return (
@@ -653,6 +1377,9 @@ class Options extends Component<{}, OptionsState> {
       case 'security':    return this.renderSecuritySection();
       case 'relays':      return this.renderRelaysSection();
       case 'permissions': return this.renderPermissionsSection();
+      case 'rules':       return this.renderRulesSection();
+      case 'antispam':    return this.renderAntiSpamSection();
+      case 'backup':      return this.renderBackupSection();
       case 'danger':      return this.renderDangerSection();
     }
   }
@@ -660,12 +1387,13 @@ class Options extends Component<{}, OptionsState> {
   renderProfilesSection() {
     const {
       selectedProfilePubKey, profiles, isCreatingProfile,
-      editingName, privateKey, isKeyHidden,
-      newProfileName, newProfileKey,
+      editingName, privateKey, isKeyHidden, pinEnabled,
+      newProfileName, newProfileKey, newProfileBunkerUri, isConnectingRemoteSigner,
     } = this.state;
     const profileKeys = Object.keys(profiles);
     const isExisting = selectedProfilePubKey !== '' && selectedProfilePubKey in profiles;
     const selectedNpub = isExisting ? nip19.npubEncode(selectedProfilePubKey) : '';
+    const selectedRemoteSigner = isExisting ? profiles[selectedProfilePubKey].remoteSigner : undefined;
 
     return (
       <div className="opts-section">
@@ -726,13 +1454,32 @@ class Options extends Component<{}, OptionsState> {
                     type={isKeyHidden ? 'password' : 'text'}
                     value={newProfileKey}
                     onInput={(e: any) => this.setState({ newProfileKey: e.target.value.toLowerCase().trim() })}
-                    placeholder="nsec1... or hex"
+                    placeholder="nsec1..., ncryptsec1... or hex"
                   />
                   <button onClick={this.handlePrivateKeyShowClick} title={isKeyHidden ? 'Show' : 'Hide'}>
                     {isKeyHidden ? <EyeIcon /> : <EyeOffIcon />}
                   </button>
                 </div>
-                <span className="form-hint">Paste an existing key or generate a new one.</span>
+                <span className="form-hint">Paste an existing key or generate a new one. A NIP-49 ncryptsec key asks for its password when saved.</span>
+              </div>
+              <div className="form-control">
+                <span className="form-label">Or use a remote signer (NIP-46)</span>
+                <div className="input-group">
+                  <input
+                    id="new-profile-bunker"
+                    type="text"
+                    value={newProfileBunkerUri}
+                    onInput={(e: any) => this.setState({ newProfileBunkerUri: e.target.value.trim() })}
+                    placeholder="bunker://..."
+                  />
+                  <button
+                    disabled={!newProfileBunkerUri || isConnectingRemoteSigner}
+                    onClick={this.saveNewRemoteProfile}
+                  >
+                    {isConnectingRemoteSigner ? 'Connecting...' : 'Connect'}
+                  </button>
+                </div>
+                <span className="form-hint">The key stays in the bunker. Approve the connection there if asked.</span>
               </div>
               <div className="prof-detail-actions">
                 <button onClick={this.generateRandomPrivateKey}>
@@ -780,16 +1527,39 @@ class Options extends Component<{}, OptionsState> {
                 </div>
               </div>
 
-              {/* Private key */}
-              <div className="prof-detail-field">
-                <span className="prof-detail-label">Private key</span>
-                <div className="prof-detail-value">
-                  <code>{isKeyHidden ? '\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022' : truncatePublicKeys(privateKey, 16, 12)}</code>
-                  <button className="button-onlyicon" onClick={this.handlePrivateKeyShowClick} title={isKeyHidden ? 'Show' : 'Hide'}>
-                    {isKeyHidden ? <EyeIcon /> : <EyeOffIcon />}
-                  </button>
+              {/* Private key, or the remote signer holding it */}
+              {selectedRemoteSigner ? (
+                <div className="prof-detail-field">
+                  <span className="prof-detail-label">Remote signer</span>
+                  <div className="prof-detail-value">
+                    <code>{truncatePublicKeys(selectedRemoteSigner.bunkerUri, 20, 12)}</code>
+                  </div>
                 </div>
-              </div>
+              ) : (
+                <div className="prof-detail-field">
+                  <span className="prof-detail-label">Private key</span>
+                  <div className="prof-detail-value">
+                    <code>{isKeyHidden ? '\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022\u2022' : truncatePublicKeys(privateKey, 16, 12)}</code>
+                    <button className="button-onlyicon" onClick={this.handlePrivateKeyShowClick} title={isKeyHidden ? 'Show' : 'Hide'}>
+                      {isKeyHidden ? <EyeIcon /> : <EyeOffIcon />}
+                    </button>
+                    <button className="button-onlyicon" onClick={this.handleExportNcryptsecClick} title="Export as ncryptsec">
+                      <DownloadIcon />
+                    </button>
+                  </div>
+                </div>
+              )}
+              {isExisting && !selectedRemoteSigner && (
+                <div className="prof-detail-field">
+                  <span className="prof-detail-label">Protection</span>
+                  <div className="prof-detail-value">
+                    <span>{profiles[selectedProfilePubKey].ownPin ? 'Own PIN or passphrase' : (pinEnabled ? 'Shared PIN' : 'None')}</span>
+                    <button onClick={this.handleProfilePinClick}>
+                      {profiles[selectedProfilePubKey].ownPin ? 'Use shared PIN' : 'Set own PIN'}
+                    </button>
+                  </div>
+                </div>
+              )}
 
               <hr className="separator" />
 
@@ -820,7 +1590,7 @@ class Options extends Component<{}, OptionsState> {
   }
 
   renderSecuritySection() {
-    const { pinEnabled, pinCacheDuration, relayAuthGrants, sessionTokenCount } = this.state;
+    const { pinEnabled, pinCacheDuration, pinLockoutThreshold, zapWarningThresholdSats, debugLogging, autoLock, hasPasskey, relayAuthGrants, newTrustedRelay, sessionTokenCount } = this.state;
     const grantEntries = Object.values(relayAuthGrants || {}) as any[];
     return (
       <div className="opts-section">
@@ -848,6 +1618,124 @@ class Options extends Component<{}, OptionsState> {
                 <span className="form-hint">How long the PIN is remembered after entry.</span>
               </div>
             )}
+            {pinEnabled && (
+              <div className="form-control switch-sub-control">
+                <span className="form-label">Lock PIN entry</span>
+                <select id="pin-lockout-threshold" value={pinLockoutThreshold} onChange={this.handlePinLockoutThresholdChange}>
+                  <option value={0}>Never</option>
+                  <option value={5}>After 5 failed attempts</option>
+                  <option value={10}>After 10 failed attempts</option>
+                  <option value={20}>After 20 failed attempts</option>
+                </select>
+                <span className="form-hint">
+                  After 3 wrong PINs, each further attempt waits longer (30 seconds, doubling up to an hour).
+                  Once locked, a profile's private key must be entered before the PIN is accepted again.
+                </span>
+              </div>
+            )}
+            {pinEnabled && isPasskeySupported() && (
+              <div className="form-control switch-sub-control">
+                <span className="form-label">Passkey unlock</span>
+                {hasPasskey ? (
+                  <button className="button-danger-outline" onClick={this.handleRemovePasskeyClick}>Remove passkey</button>
+                ) : (
+                  <button onClick={this.handleSetUpPasskeyClick}>Set up passkey</button>
+                )}
+                <span className="form-hint">
+                  Unlock with a security key or your device's screen lock instead of typing the PIN. The PIN keeps working.
+                  Needs an authenticator with the WebAuthn PRF extension.
+                </span>
+              </div>
+            )}
+
+            <hr className="separator" />
+
+            <div className="form-control">
+              <span className="form-label">Auto-lock when idle</span>
+              <select
+                id="lock-on-idle"
+                value={autoLock.lockOnIdleMinutes}
+                onChange={(e: any) => this.handleAutoLockChange('lockOnIdleMinutes', parseInt(e.target.value, 10))}
+              >
+                <option value={0}>Never</option>
+                <option value={1}>After 1 minute</option>
+                <option value={5}>After 5 minutes</option>
+                <option value={15}>After 15 minutes</option>
+                <option value={30}>After 30 minutes</option>
+              </select>
+              <span className="form-hint">Locking forgets cached PINs, including each profile's own PIN, and the keys derived from them.</span>
+            </div>
+            <div className="switch-row">
+              <div className="switch-label">
+                <strong>Lock when the screen locks</strong>
+              </div>
+              <input
+                type="checkbox"
+                className="toggle"
+                checked={autoLock.lockOnScreenLock}
+                onChange={(e: any) => this.handleAutoLockChange('lockOnScreenLock', e.target.checked)}
+              />
+            </div>
+            <div className="switch-row">
+              <div className="switch-label">
+                <strong>Lock when all browser windows close</strong>
+              </div>
+              <input
+                type="checkbox"
+                className="toggle"
+                checked={autoLock.lockOnAllWindowsClosed}
+                onChange={(e: any) => this.handleAutoLockChange('lockOnAllWindowsClosed', e.target.checked)}
+              />
+            </div>
+            <div className="switch-row">
+              <div className="switch-label">
+                <strong>Renew PIN cache on use</strong>
+                <span>Each signature restarts the cache duration instead of counting from PIN entry.</span>
+              </div>
+              <input
+                type="checkbox"
+                className="toggle"
+                checked={autoLock.renewPinCacheOnUse}
+                onChange={(e: any) => this.handleAutoLockChange('renewPinCacheOnUse', e.target.checked)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <strong>Zap Requests</strong>
+            <div className="form-control">
+              <span className="form-label">Warn about zaps above</span>
+              <select id="zap-warning-threshold" value={zapWarningThresholdSats} onChange={this.handleZapWarningThresholdChange}>
+                <option value={1000}>1,000 sats</option>
+                <option value={10000}>10,000 sats</option>
+                <option value={21000}>21,000 sats</option>
+                <option value={100000}>100,000 sats</option>
+                <option value={1000000}>1,000,000 sats</option>
+              </select>
+              <span className="form-hint">
+                The zap request prompt shows the amount, recipient and payment server, and warns about larger amounts.
+              </span>
+            </div>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <strong>Developer</strong>
+            <div className="switch-row">
+              <div className="switch-label">
+                <strong>Debug logging</strong>
+                <span>Log every NIP-07 request and its result to the web page's console, including decrypted messages, and locks and key upgrades to the extension's console.</span>
+              </div>
+              <input
+                type="checkbox"
+                className="toggle"
+                checked={debugLogging}
+                onChange={(e: any) => this.handleDebugLoggingChange(e.target.checked)}
+              />
+            </div>
           </div>
         </div>
 
@@ -869,14 +1757,15 @@ class Options extends Component<{}, OptionsState> {
           </div>
         </div>
 
-        {grantEntries.length > 0 && (
-          <div className="card">
-            <div className="card-body">
-              <strong>Trusted Relays (Auto-Auth)</strong>
-              <p className="form-hint">
-                These relays are trusted to receive your identity proof automatically.
-                Auth challenges (kind:22242) from these relays are signed without prompting.
-              </p>
+        <div className="card">
+          <div className="card-body">
+            <strong>Trusted Relays (Auto-Auth)</strong>
+            <p className="form-hint">
+              These relays are trusted to receive your identity proof automatically.
+              Auth challenges (kind:22242) from these relays are signed without prompting.
+              A pattern like <code>wss://*.example.com</code> trusts every subdomain of example.com.
+            </p>
+            {grantEntries.length > 0 && (
               <div className="relays-list" style={{ 'margin-top': '8px' }}>
                 {grantEntries.map((grant: any) => (
                   <div key={grant.relayUrl} className="relay-row">
@@ -899,9 +1788,24 @@ class Options extends Component<{}, OptionsState> {
                   </div>
                 ))}
               </div>
+            )}
+            <div className="form-control">
+              <span className="form-label">Add trusted relay</span>
+              <div className="input-group">
+                <input
+                  id="new-trusted-relay"
+                  placeholder="wss://relay.example.com or wss://*.example.com"
+                  value={newTrustedRelay}
+                  onInput={(e: any) => this.setState({ newTrustedRelay: e.target.value })}
+                  className={newTrustedRelay && !this.isTrustedRelayValid() ? 'input-error' : ''}
+                />
+                <button className="button-primary" disabled={!this.isTrustedRelayValid()} onClick={this.handleAddTrustedRelay}>
+                  Add
+                </button>
+              </div>
             </div>
           </div>
-        )}
+        </div>
       </div>
     );
   }
@@ -970,13 +1874,18 @@ class Options extends Component<{}, OptionsState> {
   }
 
   renderPermissionsSection() {
-    const { sitePermissions, expandedSiteHost, siteAuditEntries } = this.state;
+    const { sitePermissions, expandedSiteHost, siteAuditEntries, constraintDraft, quotaDraft } = this.state;
     const sites = Object.values(sitePermissions);
     const now = Math.floor(Date.now() / 1000);
     return (
       <div className="opts-section">
         <h2 className="opts-section-title">Site Permissions</h2>
-        <p className="opts-section-desc">Sites that have requested signing access. Click a site to view its audit log.</p>
+        <p className="opts-section-desc">
+          Sites that have requested signing access. Grants belong to the profile they were given for. Click a site to view its quotas and audit log.
+        </p>
+
+        {constraintDraft && this.renderConstraintEditor(constraintDraft)}
+        {quotaDraft && this.renderQuotaEditor(quotaDraft)}
 
         {sites.length === 0 ? (
           <div className="card">
@@ -987,7 +1896,9 @@ class Options extends Component<{}, OptionsState> {
         ) : (
           <div className="sites-list">
             {sites.map((site: SitePermission) => {
-              const activeGrants = site.grants.filter(g => g.expires_at === null || g.expires_at > now);
+              const activeGrants = site.grants
+                .filter(g => g.expires_at === null || g.expires_at > now)
+                .sort((a, b) => this.profileLabel(a.profilePubKey).localeCompare(this.profileLabel(b.profilePubKey)));
               const isExpanded = expandedSiteHost === site.host;
               const auditList = isExpanded ? [...siteAuditEntries].reverse() : [];
               return (
@@ -998,6 +1909,7 @@ class Options extends Component<{}, OptionsState> {
                       <div className="site-perm-stats">
                         <span className="site-perm-stat">{site.request_count} requests</span>
                         {site.denied_count > 0 && <span className="site-perm-stat site-perm-stat-warn">{site.denied_count} denied</span>}
+                        {site.boundProfilePubKey && <span className="site-perm-stat">Signs as {this.profileLabel(site.boundProfilePubKey)}</span>}
                         <span className="site-perm-stat">First seen {formatDistance(new Date(site.first_seen * 1000), new Date(), { addSuffix: true })}</span>
                       </div>
                       <button className="button-onlyicon icon-btn-danger" onClick={(e: any) => { e.stopPropagation(); this.handleRevokeAllGrants(site.host); }} title="Revoke all">
@@ -1007,16 +1919,24 @@ class Options extends Component<{}, OptionsState> {
                     {activeGrants.length > 0 ? (
                       <div className="site-grants">
                         {activeGrants.map(grant => (
-                          <div key={grant.capability} className="site-grant-row">
+                          <div key={`${grant.profilePubKey}:${grant.capability}`} className="site-grant-row">
                             <div className="site-grant-info">
                               <span className="site-grant-cap">{CAPABILITY_INFO[grant.capability]?.label || grant.capability}</span>
                               <span className="site-grant-meta">
-                                {grant.duration} · {formatDistance(new Date(grant.granted_at * 1000), new Date(), { addSuffix: true })}
+                                {this.profileLabel(grant.profilePubKey)} · {grant.duration} · {formatDistance(new Date(grant.granted_at * 1000), new Date(), { addSuffix: true })}
+                                {grant.constraints && ' · constrained'}
                               </span>
                             </div>
-                            <button className="link-btn link-btn-danger" onClick={() => this.handleRevokeGrant(site.host, grant.capability)}>
-                              Revoke
-                            </button>
+                            <div className="site-grant-actions">
+                              {grant.capability === 'signEvent' && (
+                                <button className="link-btn" onClick={() => this.handleEditConstraints(site.host, grant)}>
+                                  Constraints
+                                </button>
+                              )}
+                              <button className="link-btn link-btn-danger" onClick={() => this.handleRevokeGrant(site.host, grant.capability, grant.profilePubKey)}>
+                                Revoke
+                              </button>
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -1024,6 +1944,36 @@ class Options extends Component<{}, OptionsState> {
                       <p className="site-perm-empty">No active grants</p>
                     )}
 
+                    {isExpanded && (
+                      <div className="site-audit-section">
+                        <div className="site-audit-header">
+                          <strong>Quotas</strong>
+                          <button className="link-btn" onClick={() => this.handleNewQuota(site.host)}>
+                            Add quota
+                          </button>
+                        </div>
+                        {(site.quotas || []).length === 0 ? (
+                          <p className="site-perm-empty">No quotas. Granted requests are approved without limit.</p>
+                        ) : (
+                          <div className="site-grants">
+                            {(site.quotas || []).map(quota => (
+                              <div key={quota.id} className="site-grant-row">
+                                <div className="site-grant-info">
+                                  <span className="site-grant-cap">{this.describeQuota(quota)}</span>
+                                  <span className="site-grant-meta">
+                                    {quota.usage.filter(ts => now - ts < quota.windowSeconds).length} used in the current window
+                                  </span>
+                                </div>
+                                <button className="link-btn link-btn-danger" onClick={() => this.handleRemoveQuota(site.host, quota.id)}>
+                                  Remove
+                                </button>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
                     {isExpanded && (
                       <div className="site-audit-section">
                         <div className="site-audit-header">
@@ -1039,6 +1989,8 @@ class Options extends Component<{}, OptionsState> {
                                 <div className="site-audit-info">
                                   <span className="site-audit-summary">{entry.summary}</span>
                                   {entry.eventKindName && <span className="site-audit-kind">{entry.eventKindName}</span>}
+                                  {entry.ruleName && <span className="site-audit-kind">Rule: {entry.ruleName}</span>}
+                                  {entry.quotaExceeded && <span className="site-audit-kind">Quota reached</span>}
                                 </div>
                                 <div className="site-audit-right">
                                   <span className={`site-audit-disp site-audit-disp-${entry.disposition}`}>{entry.disposition}</span>
@@ -1060,6 +2012,339 @@ class Options extends Component<{}, OptionsState> {
     );
   }
 
+  renderConstraintEditor(draft: GrantConstraintDraft) {
+    return (
+      <div className="card prof-detail-card">
+        <div className="card-body">
+          <div className="prof-detail-header">
+            <span className="prof-detail-badge">Signing Constraints</span>
+            <span className="site-perm-stat">{draft.host} · {this.profileLabel(draft.profilePubKey)}</span>
+          </div>
+          <p className="form-hint">
+            Events this site asks to sign under its grant must pass every constraint. Events that don't are prompted for.
+            Leave every field empty to remove the constraints.
+          </p>
+          <div className="form-control">
+            <span className="form-label">Content shorter than</span>
+            <input
+              type="text"
+              value={draft.maxContentLength}
+              onInput={(e: any) => this.updateConstraintDraft({ maxContentLength: e.target.value })}
+              placeholder="e.g. 2000"
+            />
+            <span className="form-hint">Characters. Leave empty for no limit.</span>
+          </div>
+          <div className="form-control">
+            <span className="form-label">Required tags</span>
+            <input
+              type="text"
+              value={draft.requiredTags}
+              onInput={(e: any) => this.updateConstraintDraft({ requiredTags: e.target.value })}
+              placeholder="e.g. client"
+            />
+          </div>
+          <div className="form-control">
+            <span className="form-label">Forbidden tags</span>
+            <input
+              type="text"
+              value={draft.forbiddenTags}
+              onInput={(e: any) => this.updateConstraintDraft({ forbiddenTags: e.target.value })}
+              placeholder="e.g. t, r"
+            />
+          </div>
+          <div className="form-control">
+            <span className="form-label">Tag value patterns</span>
+            <textarea
+              rows={3}
+              value={draft.tagValuePatterns}
+              onInput={(e: any) => this.updateConstraintDraft({ tagValuePatterns: e.target.value })}
+              placeholder="p pubkey1|pubkey2"
+            />
+            <span className="form-hint">
+              One tag name and regular expression per line. Every value of that tag must match it in
+              full, not just contain a match.
+            </span>
+          </div>
+          <div className="form-control">
+            <span className="form-label">Time window</span>
+            <input
+              type="text"
+              value={draft.maxCreatedAtSkew}
+              onInput={(e: any) => this.updateConstraintDraft({ maxCreatedAtSkew: e.target.value })}
+              placeholder="e.g. 600"
+            />
+            <span className="form-hint">Seconds created_at may differ from now. Leave empty to allow any timestamp.</span>
+          </div>
+          <div className="prof-detail-actions">
+            <span className="opts-toolbar-spacer" />
+            <button onClick={() => this.setState({ constraintDraft: null })}>Cancel</button>
+            <button className="button-primary" onClick={this.handleSaveConstraints}>
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  renderQuotaEditor(draft: SiteQuotaDraft) {
+    return (
+      <div className="card prof-detail-card">
+        <div className="card-body">
+          <div className="prof-detail-header">
+            <span className="prof-detail-badge">New Quota</span>
+            <span className="site-perm-stat">{draft.host}</span>
+          </div>
+          <p className="form-hint">
+            Requests over the quota are not approved automatically, even with a grant or an approve rule. You are prompted for them instead.
+          </p>
+          <div className="form-control">
+            <span className="form-label">Request</span>
+            <select
+              value={draft.capability}
+              onChange={(e: any) => this.updateQuotaDraft({ capability: e.target.value })}
+            >
+              {RULE_CAPABILITIES.map(cap => (
+                <option key={cap} value={cap}>{CAPABILITY_INFO[cap].label}</option>
+              ))}
+            </select>
+          </div>
+          {draft.capability === 'signEvent' && (
+            <div className="form-control">
+              <span className="form-label">Event kinds</span>
+              <input
+                type="text"
+                value={draft.kinds}
+                onInput={(e: any) => this.updateQuotaDraft({ kinds: e.target.value })}
+                placeholder="e.g. 9734"
+              />
+              <span className="form-hint">Leave empty to count every kind. 9734 is a zap request.</span>
+            </div>
+          )}
+          <div className="form-control">
+            <span className="form-label">Limit</span>
+            <input
+              type="text"
+              value={draft.limit}
+              onInput={(e: any) => this.updateQuotaDraft({ limit: e.target.value })}
+              placeholder="e.g. 50"
+            />
+          </div>
+          <div className="form-control">
+            <span className="form-label">Window</span>
+            <select
+              value={draft.windowSeconds}
+              onChange={(e: any) => this.updateQuotaDraft({ windowSeconds: parseInt(e.target.value, 10) })}
+            >
+              {Object.entries(QUOTA_WINDOW_LABELS).map(([seconds, label]) => (
+                <option key={seconds} value={seconds}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="prof-detail-actions">
+            <span className="opts-toolbar-spacer" />
+            <button onClick={() => this.setState({ quotaDraft: null })}>Cancel</button>
+            <button className="button-primary" onClick={this.handleSaveQuota}>
+              Add
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  renderRulesSection() {
+    const { policyRules, ruleDraft, ruleDryRun } = this.state;
+    const dryRunMatches = ruleDryRun ? ruleDryRun.filter(r => r.rule) : [];
+    const countByAction = (action: PolicyRuleAction) =>
+      dryRunMatches.filter(r => r.rule?.action === action).length;
+    return (
+      <div className="opts-section">
+        <div className="prof-header">
+          <div>
+            <h2 className="opts-section-title">Policy Rules</h2>
+            <p className="opts-section-desc">
+              Checked in order before any site permission. The first enabled rule that matches decides.
+            </p>
+          </div>
+          {!ruleDraft && (
+            <button className="prof-add-btn" onClick={this.handleNewRule}>
+              <AddCircleIcon /> New
+            </button>
+          )}
+        </div>
+
+        {ruleDraft && (
+          <div className="card prof-detail-card">
+            <div className="card-body">
+              <div className="prof-detail-header">
+                <span className="prof-detail-badge">{ruleDraft.id ? 'Edit Rule' : 'New Rule'}</span>
+              </div>
+              <div className="form-control">
+                <span className="form-label">Name</span>
+                <input
+                  type="text"
+                  value={ruleDraft.name}
+                  onInput={(e: any) => this.updateRuleDraft({ name: e.target.value })}
+                  placeholder="e.g. Ribbit notes and reactions"
+                />
+              </div>
+              <div className="form-control">
+                <span className="form-label">Host</span>
+                <input
+                  type="text"
+                  value={ruleDraft.hostPattern}
+                  onInput={(e: any) => this.updateRuleDraft({ hostPattern: e.target.value })}
+                  placeholder="*.example.com"
+                />
+                <span className="form-hint">
+                  <code>*</code> for any host, <code>*.example.com</code> for example.com and its subdomains, or an exact host.
+                </span>
+              </div>
+              <div className="form-control">
+                <span className="form-label">Requests</span>
+                <div className="rule-capabilities">
+                  {RULE_CAPABILITIES.map(cap => (
+                    <label key={cap} className="relay-toggle">
+                      <input
+                        type="checkbox"
+                        checked={ruleDraft.capabilities.includes(cap)}
+                        onChange={() => this.toggleRuleDraftCapability(cap)}
+                      />
+                      <span>{CAPABILITY_INFO[cap].label}</span>
+                    </label>
+                  ))}
+                </div>
+                <span className="form-hint">Leave all unchecked to match any request.</span>
+              </div>
+              <div className="form-control">
+                <span className="form-label">Event kinds</span>
+                <input
+                  type="text"
+                  value={ruleDraft.kinds}
+                  onInput={(e: any) => this.updateRuleDraft({ kinds: e.target.value })}
+                  placeholder="e.g. 1, 7"
+                />
+                <span className="form-hint">Only for signing. Leave empty to match any kind.</span>
+              </div>
+              <div className="form-control">
+                <span className="form-label">Content shorter than</span>
+                <input
+                  type="text"
+                  value={ruleDraft.maxContentLength}
+                  onInput={(e: any) => this.updateRuleDraft({ maxContentLength: e.target.value })}
+                  placeholder="e.g. 2000"
+                />
+                <span className="form-hint">Characters, only for signing. Leave empty for no limit.</span>
+              </div>
+              <div className="form-control">
+                <span className="form-label">Action</span>
+                <select
+                  value={ruleDraft.action}
+                  onChange={(e: any) => this.updateRuleDraft({ action: e.target.value })}
+                >
+                  {(Object.keys(RULE_ACTION_LABELS) as PolicyRuleAction[]).map(action => (
+                    <option key={action} value={action}>{RULE_ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+                <span className="form-hint">
+                  Approve never skips the prompt for critical kinds while "always prompt for critical" is on.
+                </span>
+              </div>
+              <div className="prof-detail-actions">
+                <span className="opts-toolbar-spacer" />
+                <button onClick={() => this.setState({ ruleDraft: null })}>Cancel</button>
+                <button className="button-primary" onClick={this.handleSaveRule}>
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="card">
+          <div className="card-body">
+            {policyRules.length === 0 ? (
+              <p className="opts-empty">No rules yet. Requests fall through to site permissions.</p>
+            ) : (
+              <div className="site-grants">
+                {policyRules.map((rule, i) => (
+                  <div key={rule.id} className="site-grant-row">
+                    <div className="site-grant-info">
+                      <span className="site-grant-cap">{i + 1}. {rule.name}</span>
+                      <span className="site-grant-meta">{this.describeRule(rule)}</span>
+                    </div>
+                    <div className="relay-controls">
+                      <input
+                        type="checkbox"
+                        className="toggle"
+                        checked={rule.enabled}
+                        onChange={() => this.handleToggleRule(i)}
+                        title={rule.enabled ? 'Disable' : 'Enable'}
+                      />
+                      <button className="link-btn" disabled={i === 0} onClick={() => this.handleMoveRule(i, -1)} title="Move up">
+                        ↑
+                      </button>
+                      <button className="link-btn" disabled={i === policyRules.length - 1} onClick={() => this.handleMoveRule(i, 1)} title="Move down">
+                        ↓
+                      </button>
+                      <button className="button-onlyicon" onClick={() => this.handleEditRule(rule)} title="Edit rule">
+                        <PencilIcon />
+                      </button>
+                      <button className="button-onlyicon icon-btn-danger" onClick={() => this.handleDeleteRule(rule)} title="Delete rule">
+                        <TrashIcon />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <div className="danger-row">
+              <div className="danger-info">
+                <strong>Dry run</strong>
+                <span>Replay the audit log against the saved rules. Nothing is approved or changed.</span>
+              </div>
+              <button onClick={this.handleDryRunRules}>Test</button>
+            </div>
+            {ruleDryRun && (
+              <div className="site-audit-section">
+                <div className="site-audit-header">
+                  <strong>{dryRunMatches.length} of {ruleDryRun.length} past requests match a rule</strong>
+                  <span className="site-perm-stat">
+                    {countByAction('approve')} approve · {countByAction('prompt')} prompt · {countByAction('reject')} reject
+                  </span>
+                </div>
+                {dryRunMatches.length === 0 ? (
+                  <p className="site-perm-empty">No past request matches these rules.</p>
+                ) : (
+                  <div className="site-audit-list">
+                    {dryRunMatches.slice(0, 50).map(({ entry, rule }) => (
+                      <div key={entry.id} className="site-audit-row">
+                        <div className="site-audit-info">
+                          <span className="site-audit-summary">{entry.host} · {entry.summary}</span>
+                          <span className="site-audit-kind">Rule: {rule?.name} → {rule && RULE_ACTION_LABELS[rule.action]}</span>
+                        </div>
+                        <div className="site-audit-right">
+                          <span className={`site-audit-disp site-audit-disp-${entry.disposition}`}>{entry.disposition}</span>
+                          <span className="site-audit-time">{format(new Date(entry.timestamp), 'MMM d, HH:mm')}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   handleClearAuditLogClick = async () => {
     if (!window.confirm('Clear the audit log and free storage space? Your profiles, keys, and permissions are preserved.')) return;
     try {
@@ -1068,7 +2353,7 @@ class Options extends Component<{}, OptionsState> {
         'private_key', 'profiles', 'pin_enabled', 'encrypted_private_key',
         'active_public_key', 'pin_cache_duration',
         'session_tokens', 'relay_auth_grants',
-        'site_permissions', 'security_preferences',
+        'site_permissions', 'security_preferences', 'policy_rules', 'pin_attempts', 'passkey_unlock',
       ];
       const essentials = await browser.storage.local.get(keysToKeep);
 
@@ -1090,6 +2375,227 @@ class Options extends Component<{}, OptionsState> {
     }
   };
 
+  renderAntiSpamSection() {
+    const { antiSpam, overrideDraft, antiSpamState } = this.state;
+    const overrideHosts = Object.keys(antiSpam.antiSpamOverrides).sort();
+    const now = Date.now();
+    return (
+      <div className="opts-section">
+        <h2 className="opts-section-title">Anti-Spam</h2>
+        <p className="opts-section-desc">
+          Limits on how often a site can ask for your approval. Requests over a limit are blocked without a prompt.
+        </p>
+
+        <div className="card">
+          <div className="card-body">
+            <strong>Global Limits</strong>
+            {ANTI_SPAM_FIELDS.map(field => (
+              <div key={field.key} className="form-control">
+                <span className="form-label">{field.label}</span>
+                <select
+                  value={antiSpam[field.key]}
+                  onChange={(e: any) => this.handleAntiSpamChange(field.key, parseInt(e.target.value, 10))}
+                >
+                  {field.options.map(value => (
+                    <option key={value} value={value}>{formatAntiSpamLimit(field.key, value)}</option>
+                  ))}
+                </select>
+                {field.hint && <span className="form-hint">{field.hint}</span>}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <strong>Per-Site Limits</strong>
+            <p className="form-hint">
+              Let a client you trust burst, or give an unknown site a stricter budget. Limits left on Default use the global value.
+            </p>
+            {overrideHosts.length > 0 && (
+              <div className="site-grants">
+                {overrideHosts.map(host => (
+                  <div key={host} className="site-grant-row">
+                    <div className="site-grant-info">
+                      <span className="site-grant-cap">{host}</span>
+                      <span className="site-grant-meta">
+                        {ANTI_SPAM_FIELDS.filter(f => antiSpam.antiSpamOverrides[host][f.key] !== undefined)
+                          .map(f => `${f.label}: ${formatAntiSpamLimit(f.key, antiSpam.antiSpamOverrides[host][f.key]!)}`)
+                          .join(' · ')}
+                      </span>
+                    </div>
+                    <div className="site-grant-actions">
+                      <button className="link-btn" onClick={() => this.handleEditOverride(host)}>Edit</button>
+                      <button className="link-btn link-btn-danger" onClick={() => this.handleRemoveOverride(host)}>Remove</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {overrideDraft ? (
+              <div>
+                <div className="form-control">
+                  <span className="form-label">Host</span>
+                  <input
+                    type="text"
+                    value={overrideDraft.host}
+                    onInput={(e: any) => this.updateOverrideDraft({ host: e.target.value })}
+                    placeholder="app.example.com"
+                  />
+                </div>
+                {ANTI_SPAM_FIELDS.map(field => (
+                  <div key={field.key} className="form-control">
+                    <span className="form-label">{field.label}</span>
+                    <select
+                      value={overrideDraft[field.key] ?? ''}
+                      onChange={(e: any) =>
+                        this.updateOverrideDraft({
+                          [field.key]: e.target.value === '' ? undefined : parseInt(e.target.value, 10),
+                        })
+                      }
+                    >
+                      <option value="">Default ({formatAntiSpamLimit(field.key, antiSpam[field.key])})</option>
+                      {field.options.map(value => (
+                        <option key={value} value={value}>{formatAntiSpamLimit(field.key, value)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div className="prof-detail-actions">
+                  <span className="opts-toolbar-spacer" />
+                  <button onClick={() => this.setState({ overrideDraft: null })}>Cancel</button>
+                  <button className="button-primary" onClick={this.handleSaveOverride}>
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button className="link-btn" onClick={() => this.handleEditOverride('')}>
+                Add site limits
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <div className="site-audit-header">
+              <strong>Current State</strong>
+              <button className="link-btn" onClick={this.loadAntiSpamState}>Refresh</button>
+            </div>
+            {antiSpamState.length === 0 ? (
+              <p className="site-perm-empty">No site is rate-limited or cooling down.</p>
+            ) : (
+              <div className="site-grants">
+                {antiSpamState.map(entry => (
+                  <div key={entry.host} className="site-grant-row">
+                    <div className="site-grant-info">
+                      <span className="site-grant-cap">{entry.host}</span>
+                      <span className="site-grant-meta">
+                        {entry.recentRequests} of {entry.rateLimitMax} requests in the current window
+                        {entry.cooldownUntil !== null &&
+                          ` · cooling down for ${Math.max(1, Math.ceil((entry.cooldownUntil - now) / 1000))} seconds`}
+                      </span>
+                    </div>
+                    <button className="link-btn" onClick={() => this.handleResetAntiSpamState(entry.host)}>
+                      Reset
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  renderBackupSection() {
+    const {
+      backupPassphrase, backupPassphraseConfirm,
+      restoreFileName, restoreFileContents, restorePassphrase, restoreMode,
+    } = this.state;
+    return (
+      <div className="opts-section">
+        <h2 className="opts-section-title">Backup</h2>
+        <p className="opts-section-desc">Encrypted backup of all profiles, relays, site permissions, trusted relays, rules and settings.</p>
+
+        <div className="card">
+          <div className="card-body">
+            <strong>Create backup</strong>
+            <p className="form-hint">
+              The backup is encrypted with a passphrase of at least {MIN_BACKUP_PASSPHRASE_LENGTH} characters.
+              With PIN protection on, private keys inside it stay encrypted with your PIN too.
+            </p>
+            <div className="form-control">
+              <span className="form-label">Passphrase</span>
+              <input
+                type="password"
+                id="backup-passphrase"
+                value={backupPassphrase}
+                onInput={(e: any) => this.setState({ backupPassphrase: e.target.value })}
+              />
+            </div>
+            <div className="form-control">
+              <span className="form-label">Confirm passphrase</span>
+              <input
+                type="password"
+                id="backup-passphrase-confirm"
+                value={backupPassphraseConfirm}
+                onInput={(e: any) => this.setState({ backupPassphraseConfirm: e.target.value })}
+                className={backupPassphraseConfirm && backupPassphraseConfirm !== backupPassphrase ? 'input-error' : ''}
+              />
+            </div>
+            <button className="button-primary" disabled={!this.isBackupPassphraseValid()} onClick={this.handleCreateBackupClick}>
+              <DownloadIcon /> Download backup
+            </button>
+          </div>
+        </div>
+
+        <div className="card">
+          <div className="card-body">
+            <strong>Restore backup</strong>
+            <p className="form-hint">
+              The backup is decrypted and checked before anything is changed.
+            </p>
+            <div className="form-control">
+              <span className="form-label">Backup file</span>
+              <input type="file" id="restore-file" accept=".json,application/json" onChange={this.handleRestoreFileChange} />
+              {restoreFileName && <span className="form-hint">{restoreFileName}</span>}
+            </div>
+            <div className="form-control">
+              <span className="form-label">Passphrase</span>
+              <input
+                type="password"
+                id="restore-passphrase"
+                value={restorePassphrase}
+                onInput={(e: any) => this.setState({ restorePassphrase: e.target.value })}
+              />
+            </div>
+            <div className="form-control">
+              <span className="form-label">On conflict</span>
+              <select
+                id="restore-mode"
+                value={restoreMode}
+                onChange={(e: any) => this.setState({ restoreMode: e.target.value as BackupRestoreMode })}
+              >
+                <option value="merge">Merge — keep existing entries, add the rest</option>
+                <option value="replace">Replace — discard everything in this browser</option>
+              </select>
+            </div>
+            <button
+              className={restoreMode === 'replace' ? 'button-danger' : 'button-primary'}
+              disabled={!restoreFileContents || !restorePassphrase}
+              onClick={this.handleRestoreBackupClick}
+            >
+              <ArrowUpCircleIcon /> Restore
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   renderDangerSection() {
     return (
       <div className="opts-section">
@@ -1129,7 +2635,7 @@ class Options extends Component<{}, OptionsState> {
 
   render() {
     const {
-      profileExportJson, profileImportJson,
+      profileExportJson, profileExportLabel, profileImportJson,
       isExportModalShown, isImportModalShown,
       message, messageType,
     } = this.state;
@@ -1145,7 +2651,7 @@ class Options extends Component<{}, OptionsState> {
         </div>
 
         <Modal show={isExportModalShown} className="export-modal" onClose={this.handleExportModalClose}>
-          <p>Profile JSON (contains your private key):</p>
+          <p>{profileExportLabel}</p>
           <code>{profileExportJson}</code>
           <button onClick={this.handleExportProfileCopyClick}><CopyIcon /> Copy</button>
         </Modal>
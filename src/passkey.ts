@@ -0,0 +1,98 @@
+/**
+ * Passkey unlock through the WebAuthn PRF extension
+ * Runs in extension pages (options, PIN window): the authenticator evaluates a
+ * PRF over a stored salt, and the output is key material for the PIN envelope.
+ * The background script never talks to the authenticator.
+ */
+
+import { convertHexToUint8Array, convertUint8ArrayToHex } from './common';
+
+const PRF_SALT_LENGTH = 32; // bytes
+const CHALLENGE_LENGTH = 32; // bytes
+const RP_NAME = 'Ribbit Signer';
+
+/** A new passkey and its first PRF output, all hex */
+export type PasskeyRegistration = {
+  credentialId: string;
+  prfSalt: string;
+  prfOutput: string;
+};
+
+/**
+ * Checks whether this browser lets extension pages use WebAuthn
+ * Firefox exposes the API on moz-extension: pages but rejects every call there, as an
+ * extension origin is no valid relying party; only Chromium accepts its extension origin.
+ */
+export function isPasskeySupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    window.location.protocol === 'chrome-extension:' &&
+    !!window.PublicKeyCredential &&
+    !!navigator.credentials
+  );
+}
+
+/**
+ * Creates a passkey with the PRF extension and evaluates it once
+ * @throws Error if the user cancels or the authenticator has no PRF support
+ */
+export async function createPasskey(): Promise<PasskeyRegistration> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      rp: { name: RP_NAME },
+      user: {
+        id: crypto.getRandomValues(new Uint8Array(16)),
+        name: RP_NAME,
+        displayName: RP_NAME
+      },
+      challenge: crypto.getRandomValues(new Uint8Array(CHALLENGE_LENGTH)),
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 }, // ES256
+        { type: 'public-key', alg: -257 } // RS256
+      ],
+      authenticatorSelection: { userVerification: 'required', residentKey: 'discouraged' },
+      extensions: { prf: {} } as AuthenticationExtensionsClientInputs
+    }
+  })) as PublicKeyCredential | null;
+  if (!credential) {
+    throw new Error('Passkey creation was cancelled');
+  }
+
+  const extensionResults = credential.getClientExtensionResults() as any;
+  if (!extensionResults.prf?.enabled) {
+    throw new Error('This authenticator does not support the PRF extension');
+  }
+
+  const credentialId = convertUint8ArrayToHex(new Uint8Array(credential.rawId));
+  const prfSalt = convertUint8ArrayToHex(crypto.getRandomValues(new Uint8Array(PRF_SALT_LENGTH)));
+  const prfOutput = await evaluatePasskey(credentialId, prfSalt);
+  return { credentialId, prfSalt, prfOutput };
+}
+
+/**
+ * Asks the authenticator for the PRF output of a passkey
+ * @param credentialId - Hex credential ID from createPasskey
+ * @param prfSalt - Hex PRF input from createPasskey
+ * @returns The PRF output (hex)
+ */
+export async function evaluatePasskey(credentialId: string, prfSalt: string): Promise<string> {
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(CHALLENGE_LENGTH)),
+      allowCredentials: [{ type: 'public-key', id: convertHexToUint8Array(credentialId) as BufferSource }],
+      userVerification: 'required',
+      extensions: {
+        prf: { eval: { first: convertHexToUint8Array(prfSalt) } }
+      } as AuthenticationExtensionsClientInputs
+    }
+  })) as PublicKeyCredential | null;
+  if (!assertion) {
+    throw new Error('Passkey unlock was cancelled');
+  }
+
+  const first = (assertion.getClientExtensionResults() as any).prf?.results?.first;
+  if (!first) {
+    throw new Error('The authenticator returned no PRF output');
+  }
+  return convertUint8ArrayToHex(new Uint8Array(first));
+}
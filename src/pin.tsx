@@ -1,9 +1,9 @@
 import { createElement } from 'inferno-create-element';
 import { Component, render } from 'inferno';
-import browser from 'webextension-polyfill';
-import { encryptPrivateKey } from './pinEncryption';
 import * as Storage from './storage';
-import { PinMessageResponse } from './types';
+import { PinMessageResponse, type PasskeyUnlock } from './types';
+import { isPasskeySupported, evaluatePasskey } from './passkey';
+import { rpcCall } from './rpc';
 
 type PinMode = 'setup' | 'unlock' | 'disable';
 
@@ -14,6 +14,15 @@ interface PinState {
   error: string;
   isProcessing: boolean;
   promptId: string;
+  /** Set when unlocking a profile that has its own PIN or passphrase */
+  profileName: string | null;
+  /** PIN entry refused until this time (unix ms) after repeated failures */
+  retryAt: number | null;
+  /** PIN entry locked until a profile's private key is entered */
+  lockedOut: boolean;
+  recoveryKey: string;
+  /** Passkey that can unlock the shared PIN instead of typing it */
+  passkey: PasskeyUnlock | null;
 }
 
 class PinPrompt extends Component<{}, PinState> {
@@ -24,8 +33,15 @@ class PinPrompt extends Component<{}, PinState> {
     error: '',
     isProcessing: false,
     promptId: '',
+    profileName: null,
+    retryAt: null,
+    lockedOut: false,
+    recoveryKey: '',
+    passkey: null,
   };
 
+  private retryTimer: any = null;
+
   componentDidMount() {
     const urlParams = new URLSearchParams(window.location.search);
     const urlMode = urlParams.get('mode') as PinMode;
@@ -37,12 +53,105 @@ class PinPrompt extends Component<{}, PinState> {
     if (id) {
       update.promptId = id;
     }
+    const profilePubKey = urlParams.get('profile');
+    if (profilePubKey) {
+      update.profileName = profilePubKey.substring(0, 8);
+      Storage.getProfile(profilePubKey).then(profile => {
+        if (profile?.name) this.setState({ profileName: profile.name });
+      });
+    }
     if (Object.keys(update).length) {
       this.setState(update as PinState);
     }
+    if ((update.mode ?? this.state.mode) === 'unlock' && !profilePubKey && isPasskeySupported()) {
+      Storage.readPasskeyUnlock().then(passkey => this.setState({ passkey }));
+    }
+    if (update.mode !== 'setup') {
+      Storage.readPinAttempts().then(attempts => {
+        this.setState({ lockedOut: attempts.lockedOut });
+        this.startRetryCountdown(attempts.retryAt);
+      });
+    }
+  }
+
+  componentWillUnmount() {
+    if (this.retryTimer) clearInterval(this.retryTimer);
+  }
+
+  /** Re-render every second until PIN entry is allowed again */
+  startRetryCountdown(retryAt: number | null | undefined) {
+    if (this.retryTimer) clearInterval(this.retryTimer);
+    if (!retryAt || retryAt <= Date.now()) {
+      this.setState({ retryAt: null });
+      return;
+    }
+    this.setState({ retryAt });
+    this.retryTimer = setInterval(() => {
+      if (Date.now() >= retryAt) {
+        clearInterval(this.retryTimer);
+        this.retryTimer = null;
+        this.setState({ retryAt: null, error: '' });
+      } else {
+        this.forceUpdate();
+      }
+    }, 1000);
   }
 
+  /** Apply a refused verifyPin/disablePin response */
+  handlePinRefused(response: PinMessageResponse | undefined, fallbackError: string) {
+    this.setState({
+      error: response?.error || fallbackError,
+      isProcessing: false,
+      pin: '',
+      lockedOut: !!response?.lockedOut,
+    });
+    this.startRetryCountdown(response?.retryAt);
+  }
+
+  handleRecoveryKeyChange = (e: any) => {
+    this.setState({ recoveryKey: e.target.value.trim(), error: '' });
+  };
+
+  handleUnlockWithKey = async () => {
+    const { recoveryKey, promptId } = this.state;
+    this.setState({ isProcessing: true, error: '' });
+    try {
+      const response = await rpcCall('unlockWithKey', { privateKey: recoveryKey, id: promptId });
+      if (response && response.success) {
+        this.setState({ lockedOut: false, recoveryKey: '', isProcessing: false });
+        this.startRetryCountdown(null);
+      } else {
+        this.setState({ error: response?.error || 'Wrong private key', isProcessing: false, recoveryKey: '' });
+      }
+    } catch (error: any) {
+      this.setState({ error: error?.message || 'Failed to verify private key', isProcessing: false, recoveryKey: '' });
+    }
+  };
+
+  handleUnlockWithPasskey = async () => {
+    const { passkey, promptId } = this.state;
+    if (!passkey) return;
+    this.setState({ isProcessing: true, error: '' });
+    try {
+      const prfOutput = await evaluatePasskey(passkey.credentialId, passkey.prfSalt);
+      const response = await rpcCall('unlockWithPasskey', { prfOutput, id: promptId });
+      if (response && response.success) {
+        window.close();
+      } else {
+        this.setState({ error: response?.error || 'Passkey unlock failed', isProcessing: false, lockedOut: !!response?.lockedOut });
+        if (!response?.lockedOut) Storage.readPasskeyUnlock().then(current => this.setState({ passkey: current }));
+      }
+    } catch (error: any) {
+      this.setState({ error: error?.message || 'Passkey unlock failed', isProcessing: false });
+    }
+  };
+
   handlePinChange = (e: any) => {
+    // A profile's own secret may be a passphrase rather than digits
+    if (this.state.profileName !== null) {
+      this.setState({ pin: e.target.value, error: '' });
+      return;
+    }
     const value = e.target.value.replace(/\D/g, '');
     if (value.length <= 6) {
       this.setState({ pin: value, error: '' });
@@ -57,6 +166,13 @@ class PinPrompt extends Component<{}, PinState> {
   };
 
   validatePin(pinValue: string): boolean {
+    if (this.state.profileName !== null) {
+      if (pinValue.length < 4) {
+        this.setState({ error: 'Enter at least 4 characters' });
+        return false;
+      }
+      return true;
+    }
     if (pinValue.length < 4 || pinValue.length > 6) {
       this.setState({ error: 'PIN must be between 4 and 6 digits' });
       return false;
@@ -79,15 +195,8 @@ class PinPrompt extends Component<{}, PinState> {
 
       this.setState({ isProcessing: true });
       try {
-        const currentPrivateKey = await Storage.readActivePrivateKey();
-        if (!currentPrivateKey) {
-          this.setState({ error: 'No private key found', isProcessing: false });
-          return;
-        }
-        const encryptedKey = await encryptPrivateKey(pin, currentPrivateKey);
-        const response = (await browser.runtime.sendMessage({
-          type: 'setupPin', pin, encryptedKey, id: promptId
-        })) as PinMessageResponse;
+        // The background encrypts every profile's key with the new PIN
+        const response = await rpcCall('setupPin', { pin, id: promptId });
 
         if (response && response.success) {
           this.setState({ pin: '', confirmPin: '' });
@@ -101,14 +210,12 @@ class PinPrompt extends Component<{}, PinState> {
     } else if (mode === 'unlock') {
       this.setState({ isProcessing: true });
       try {
-        const response = (await browser.runtime.sendMessage({
-          type: 'verifyPin', pin, id: promptId
-        })) as PinMessageResponse;
+        const response = await rpcCall('verifyPin', { pin, id: promptId });
         if (response && response.success) {
           this.setState({ pin: '' });
           window.close();
         } else {
-          this.setState({ error: response?.error || 'Incorrect PIN', isProcessing: false, pin: '' });
+          this.handlePinRefused(response, 'Incorrect PIN');
         }
       } catch (error: any) {
         this.setState({ error: error?.message || 'Failed to verify PIN', isProcessing: false, pin: '' });
@@ -116,14 +223,12 @@ class PinPrompt extends Component<{}, PinState> {
     } else if (mode === 'disable') {
       this.setState({ isProcessing: true });
       try {
-        const response = (await browser.runtime.sendMessage({
-          type: 'disablePin', pin, id: promptId
-        })) as PinMessageResponse | undefined;
+        const response = await rpcCall('disablePin', { pin, id: promptId });
         if (response && response.success) {
           this.setState({ pin: '' });
           window.close();
         } else {
-          this.setState({ error: (response && response.error) || 'Incorrect PIN', isProcessing: false, pin: '' });
+          this.handlePinRefused(response, 'Incorrect PIN');
         }
       } catch (error: any) {
         this.setState({ error: error?.message || 'Failed to disable PIN protection', isProcessing: false, pin: '' });
@@ -136,6 +241,7 @@ class PinPrompt extends Component<{}, PinState> {
   };
 
   getTitle() {
+    if (this.state.profileName !== null) return `Unlock ${this.state.profileName}`;
     switch (this.state.mode) {
       case 'setup': return 'Set up PIN Protection';
       case 'unlock': return 'Enter PIN';
@@ -145,6 +251,7 @@ class PinPrompt extends Component<{}, PinState> {
   }
 
   getDescription() {
+    if (this.state.profileName !== null) return 'This profile has its own PIN or passphrase. Enter it to unlock its private key.';
     switch (this.state.mode) {
       case 'setup': return 'Enter a PIN to protect your private keys. You will need to enter this PIN each time you use the extension.';
       case 'unlock': return 'Enter your PIN to unlock your private keys.';
@@ -153,8 +260,51 @@ class PinPrompt extends Component<{}, PinState> {
     }
   }
 
+  renderLockedOut() {
+    const { error, isProcessing, recoveryKey } = this.state;
+    return (
+      <>
+        <header>
+          <h1>PIN Locked</h1>
+          <p>Too many incorrect PINs. Enter the private key (nsec or hex) of one of your profiles to allow PIN entry again.</p>
+        </header>
+        <main>
+          {error && (
+            <div className="alert warning" role="alert">
+              {error}
+            </div>
+          )}
+          <div className="form-field">
+            <label htmlFor="recovery-key-input">Private key:</label>
+            <input
+              id="recovery-key-input"
+              className="pin-text-input"
+              type="password"
+              value={recoveryKey}
+              onInput={this.handleRecoveryKeyChange}
+              disabled={isProcessing}
+              autoFocus
+            />
+          </div>
+          <div className="action-buttons">
+            <button
+              onClick={this.handleUnlockWithKey}
+              disabled={isProcessing || !recoveryKey}
+              className="button button-success"
+            >
+              Allow PIN Entry
+            </button>
+          </div>
+        </main>
+      </>
+    );
+  }
+
   render() {
-    const { mode, pin, confirmPin, error, isProcessing } = this.state;
+    const { mode, pin, confirmPin, error, isProcessing, retryAt, lockedOut, profileName, passkey } = this.state;
+    const isPassphrase = profileName !== null;
+    if (lockedOut && mode !== 'setup') return this.renderLockedOut();
+    const waitSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - Date.now()) / 1000)) : 0;
     return (
       <>
         <header>
@@ -167,13 +317,19 @@ class PinPrompt extends Component<{}, PinState> {
               {error}
             </div>
           )}
+          {waitSeconds > 0 && (
+            <div className="alert warning" role="status">
+              Try again in {waitSeconds}s.
+            </div>
+          )}
           <div className="form-field">
-            <label htmlFor="pin-input">PIN (4-6 digits):</label>
+            <label htmlFor="pin-input">{isPassphrase ? 'PIN or passphrase:' : 'PIN (4-6 digits):'}</label>
             <input
               id="pin-input"
+              className={isPassphrase ? 'pin-text-input' : ''}
               type="password"
               value={pin}
-              maxLength={6}
+              maxLength={isPassphrase ? undefined : 6}
               onInput={this.handlePinChange}
               onKeyPress={this.handleKeyPress}
               disabled={isProcessing}
@@ -197,7 +353,7 @@ class PinPrompt extends Component<{}, PinState> {
           <div className="action-buttons">
             <button
               onClick={this.handleConfirm}
-              disabled={isProcessing || pin.length < 4 || (mode === 'setup' && confirmPin !== pin)}
+              disabled={isProcessing || waitSeconds > 0 || pin.length < 4 || (mode === 'setup' && confirmPin !== pin)}
               className="button button-success"
             >
               {mode === 'setup'
@@ -206,6 +362,11 @@ class PinPrompt extends Component<{}, PinState> {
                   ? 'Disable Protection'
                   : 'Unlock'}
             </button>
+            {passkey && (
+              <button onClick={this.handleUnlockWithPasskey} disabled={isProcessing} className="button">
+                Use Passkey
+              </button>
+            )}
           </div>
         </main>
       </>
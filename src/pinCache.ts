@@ -1,30 +1,40 @@
 /**
  * Ephemeral PIN cache
- * PIN is stored in memory only and is lost when the browser closes
+ * PIN is stored in memory only and is lost when the browser closes.
+ * The shared PIN and each profile's own PIN or passphrase are cached separately.
  */
 
 import * as Storage from './storage';
 import { clearPinCacheEntry } from './memoryUtils';
+import { type DerivedKeys } from './pinEncryption';
 
 interface PinCacheEntry {
   pin: string;
   timestamp: number;
+  /** Keys derived from the PIN, dropped with it */
+  derivedKeys: DerivedKeys;
 }
 
-let pinCache: PinCacheEntry | null = null;
-let expirationTimer: ReturnType<typeof setTimeout> | null = null;
+/** Cache scope of the PIN shared by all profiles without their own */
+export const SHARED_PIN_SCOPE = '';
+
+const pinCache = new Map<string, PinCacheEntry>();
+const expirationTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
 /**
  * Gets the cached PIN if it's still valid
+ * @param scope - SHARED_PIN_SCOPE, or the public key of a profile with its own PIN
+ * @param renew - Count this as a use for renewPinCacheOnUse; false when only checking
  * @returns The cached PIN if valid, null if expired or not cached
  */
-export async function getCachedPin(): Promise<string | null> {
-  if (!pinCache) {
+export async function getCachedPin(scope: string = SHARED_PIN_SCOPE, renew = true): Promise<string | null> {
+  const entry = pinCache.get(scope);
+  if (!entry) {
     return null;
   }
 
   const now = Date.now();
-  const age = now - pinCache.timestamp;
+  const age = now - entry.timestamp;
 
   // Get the configured cache duration
   const cacheDurationMs = await Storage.getPinCacheDuration();
@@ -32,42 +42,42 @@ export async function getCachedPin(): Promise<string | null> {
   // Ensure cache duration is a valid positive number
   if (!cacheDurationMs || cacheDurationMs <= 0 || !Number.isFinite(cacheDurationMs)) {
     // Invalid cache duration, clear cache for safety (also clears timer)
-    clearCachedPin();
+    clearCachedPin(scope);
     return null;
   }
 
   // Check if cache has expired
   if (age >= cacheDurationMs) {
     // Cache expired, clear it (also clears timer)
-    clearCachedPin();
+    clearCachedPin(scope);
     return null;
   }
 
+  // Sliding expiry: each use restarts the cache duration
+  if (renew && (await Storage.readSecurityPreferences()).renewPinCacheOnUse) {
+    entry.timestamp = now;
+    scheduleExpiration(scope, cacheDurationMs);
+  }
+
   // Return a copy of the PIN (strings are immutable, but this minimizes reference exposure)
-  return pinCache.pin;
+  return entry.pin;
 }
 
 /**
  * Stores a PIN in the ephemeral cache with current timestamp
  * Sets up proactive expiration timer to clear PIN after configured duration
  * @param pin - The PIN to cache
+ * @param scope - SHARED_PIN_SCOPE, or the public key of a profile with its own PIN
  */
-export async function setCachedPin(pin: string): Promise<void> {
-  // Clear any existing expiration timer
-  if (expirationTimer !== null) {
-    clearTimeout(expirationTimer);
-    expirationTimer = null;
-  }
+export async function setCachedPin(pin: string, scope: string = SHARED_PIN_SCOPE): Promise<void> {
+  // Clear any existing entry and expiration timer before replacing
+  clearCachedPin(scope);
 
-  // Clear existing cache entry before replacing
-  if (pinCache) {
-    clearPinCacheEntry(pinCache);
-  }
-
-  pinCache = {
+  pinCache.set(scope, {
     pin,
-    timestamp: Date.now()
-  };
+    timestamp: Date.now(),
+    derivedKeys: new Map()
+  });
 
   // Get the configured cache duration and set up expiration timer
   try {
@@ -76,9 +86,7 @@ export async function setCachedPin(pin: string): Promise<void> {
     // Ensure cache duration is a valid positive number
     if (cacheDurationMs && cacheDurationMs > 0 && Number.isFinite(cacheDurationMs)) {
       // Schedule proactive expiration
-      expirationTimer = setTimeout(() => {
-        clearCachedPin();
-      }, cacheDurationMs);
+      scheduleExpiration(scope, cacheDurationMs);
     }
     // If cache duration is invalid, don't set timer (fail secure)
     // Lazy expiration in getCachedPin() will handle clearing
@@ -90,23 +98,60 @@ export async function setCachedPin(pin: string): Promise<void> {
 }
 
 /**
- * Clears the cached PIN
+ * (Re)starts the timer that clears a cached PIN
+ * @param scope - The cache scope to expire
+ * @param cacheDurationMs - Time until expiration
  */
-export function clearCachedPin(): void {
-  // Clear any active expiration timer
-  if (expirationTimer !== null) {
-    clearTimeout(expirationTimer);
-    expirationTimer = null;
+function scheduleExpiration(scope: string, cacheDurationMs: number): void {
+  const timer = expirationTimers.get(scope);
+  if (timer !== undefined) {
+    clearTimeout(timer);
   }
+  expirationTimers.set(
+    scope,
+    setTimeout(() => {
+      clearCachedPin(scope);
+    }, cacheDurationMs)
+  );
+}
+
+/**
+ * Gets the keys derived from a cached PIN, to reuse while it stays cached
+ * @param scope - SHARED_PIN_SCOPE, or the public key of a profile with its own PIN
+ * @param pin - The PIN the keys must come from
+ * @returns The keys, or undefined if that PIN is not the one cached
+ */
+export function getDerivedKeys(scope: string, pin: string): DerivedKeys | undefined {
+  const entry = pinCache.get(scope);
+  return entry?.pin === pin ? entry.derivedKeys : undefined;
+}
+
+/**
+ * Clears a cached PIN, with the keys derived from it
+ * @param scope - The scope to clear; all cached PINs are cleared when omitted
+ */
+export function clearCachedPin(scope?: string): void {
+  const scopes = scope === undefined ? [...pinCache.keys()] : [scope];
+  for (const s of scopes) {
+    // Clear any active expiration timer
+    const timer = expirationTimers.get(s);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      expirationTimers.delete(s);
+    }
 
-  clearPinCacheEntry(pinCache);
-  pinCache = null;
+    const entry = pinCache.get(s);
+    entry?.derivedKeys.clear();
+    clearPinCacheEntry(entry ?? null);
+    pinCache.delete(s);
+  }
 }
 
 /**
  * Checks if a PIN is currently cached and valid
+ * @param scope - SHARED_PIN_SCOPE, or the public key of a profile with its own PIN
  * @returns true if PIN is cached and not expired
  */
-export async function isPinCached(): Promise<boolean> {
-  return (await getCachedPin()) !== null;
+export async function isPinCached(scope: string = SHARED_PIN_SCOPE): Promise<boolean> {
+  return (await getCachedPin(scope)) !== null;
 }
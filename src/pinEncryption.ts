@@ -1,55 +1,137 @@
 /**
  * PIN-based encryption utilities for private key protection
- * Uses AES-GCM-256 with PBKDF2 key derivation
+ * Uses AES-GCM-256 with scrypt key derivation (PBKDF2 for data encrypted by older versions)
  */
 
+import { scryptAsync } from '@noble/hashes/scrypt';
+
 import { clearUint8Array } from './memoryUtils';
 
 const PBKDF2_ITERATIONS = 100000;
 const SALT_LENGTH = 16; // bytes
 const IV_LENGTH = 12; // bytes (for AES-GCM)
+const MAX_SCRYPT_LOG_N = 17; // one step above DEFAULT_KDF; larger parameters would exhaust memory
+
+/** Key derivation function and parameters recorded with encrypted data */
+export type KdfParams =
+  | { name: 'pbkdf2'; hash: 'SHA-256'; iterations: number }
+  | { name: 'scrypt'; logN: number; r: number; p: number }
+  | { name: 'hkdf'; hash: 'SHA-256' }; // key material from an authenticator rather than a PIN
+
+/** Parameters of data encrypted before the KDF was recorded */
+const LEGACY_KDF: KdfParams = { name: 'pbkdf2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS };
+
+/** Parameters for data encrypted with key material, such as a WebAuthn PRF output */
+const KEY_MATERIAL_KDF: Extract<KdfParams, { name: 'hkdf' }> = { name: 'hkdf', hash: 'SHA-256' };
+const KEY_MATERIAL_INFO = 'ribbit-signer-key-material';
+
+/** Parameters for newly encrypted data — memory-hard scrypt, as in NIP-49 (N = 2^16, 64 MiB) */
+export const DEFAULT_KDF: Extract<KdfParams, { name: 'scrypt' }> = { name: 'scrypt', logN: 16, r: 8, p: 1 };
+
+/** Keys already derived from one PIN, by salt and KDF, so decrypting again skips scrypt */
+export type DerivedKeys = Map<string, CryptoKey>;
 
 export interface EncryptedData {
+  kdf?: KdfParams; // missing = LEGACY_KDF
   salt: string; // base64
   iv: string; // base64
   ciphertext: string; // base64
 }
 
 /**
- * Derives an encryption key from a PIN using PBKDF2
+ * Derives an encryption key from a PIN using the given KDF
  */
-async function deriveKeyFromPin(pin: string, salt: Uint8Array): Promise<CryptoKey> {
+async function deriveKeyFromPin(pin: string, salt: Uint8Array, kdf: KdfParams): Promise<CryptoKey> {
   const encoder = new TextEncoder();
   const pinData = encoder.encode(pin);
 
   try {
+    if (kdf.name === 'scrypt') {
+      // Only logN may differ from DEFAULT_KDF, which bounds the memory a stored blob can demand
+      if (
+        !(Number.isInteger(kdf.logN) && kdf.logN > 0 && kdf.logN <= MAX_SCRYPT_LOG_N) ||
+        kdf.r !== DEFAULT_KDF.r ||
+        kdf.p !== DEFAULT_KDF.p
+      ) {
+        throw new Error('Unsupported scrypt parameters');
+      }
+      const keyBytes = await scryptAsync(pinData, salt, {
+        N: 2 ** kdf.logN,
+        r: kdf.r,
+        p: kdf.p,
+        dkLen: 32,
+        maxmem: 128 * DEFAULT_KDF.r * (2 ** MAX_SCRYPT_LOG_N + DEFAULT_KDF.p)
+      });
+      try {
+        return await crypto.subtle.importKey('raw', keyBytes as BufferSource, 'AES-GCM', false, [
+          'encrypt',
+          'decrypt'
+        ]);
+      } finally {
+        clearUint8Array(keyBytes);
+      }
+    }
+
+    if (kdf.name !== 'pbkdf2') {
+      throw new Error('Unsupported key derivation function');
+    }
+
     const baseKey = await crypto.subtle.importKey('raw', pinData, 'PBKDF2', false, [
       'deriveBits',
       'deriveKey'
     ]);
 
-    const derivedKey = await crypto.subtle.deriveKey(
+    return await crypto.subtle.deriveKey(
       {
         name: 'PBKDF2',
         salt: salt as BufferSource,
-        iterations: PBKDF2_ITERATIONS,
-        hash: 'SHA-256'
+        iterations: kdf.iterations,
+        hash: kdf.hash
       },
       baseKey,
       { name: 'AES-GCM', length: 256 },
       false,
       ['encrypt', 'decrypt']
     );
-
-    // Clear PIN data from memory
+  } finally {
+    // Clear PIN data from memory, even on error
     clearUint8Array(pinData);
+  }
+}
 
-    return derivedKey;
+/**
+ * Derives an encryption key from high-entropy key material with HKDF
+ */
+async function deriveKeyFromMaterial(keyMaterial: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', keyMaterial as BufferSource, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: KEY_MATERIAL_KDF.hash,
+      salt: salt as BufferSource,
+      info: new TextEncoder().encode(KEY_MATERIAL_INFO)
+    },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Checks whether encrypted data was derived with weaker parameters than DEFAULT_KDF
+ * @param encryptedText - JSON string containing encrypted data
+ * @returns true if the data should be re-encrypted with DEFAULT_KDF
+ */
+export function needsKdfUpgrade(encryptedText: string): boolean {
+  let kdf: KdfParams;
+  try {
+    kdf = (JSON.parse(encryptedText) as EncryptedData).kdf ?? LEGACY_KDF;
   } catch (error) {
-    // Ensure PIN data is cleared even on error
-    clearUint8Array(pinData);
-    throw error;
+    return false;
   }
+  if (kdf.name === 'hkdf') return false;
+  return kdf.name !== DEFAULT_KDF.name || kdf.logN < DEFAULT_KDF.logN;
 }
 
 /**
@@ -59,16 +141,112 @@ async function deriveKeyFromPin(pin: string, salt: Uint8Array): Promise<CryptoKe
  * @returns JSON string containing encrypted data (salt, iv, ciphertext)
  */
 export async function encryptPrivateKey(pin: string, privateKey: string): Promise<string> {
-  // Generate random salt and IV
+  return encryptString(pin, privateKey);
+}
+
+/**
+ * Decrypts a private key using a PIN
+ * @param pin - The PIN used for encryption
+ * @param encryptedKey - JSON string containing encrypted data
+ * @param derivedKeys - Keys derived from this PIN before, reused and added to
+ * @returns The decrypted private key (hex string)
+ * @throws Error if decryption fails (wrong PIN or corrupted data)
+ */
+export async function decryptPrivateKey(
+  pin: string,
+  encryptedKey: string,
+  derivedKeys?: DerivedKeys
+): Promise<string> {
+  return decryptString(pin, encryptedKey, derivedKeys);
+}
+
+/**
+ * Encrypts any string using a PIN or passphrase
+ * @param pin - The PIN or passphrase to use for encryption
+ * @param plaintext - The text to encrypt
+ * @returns JSON string containing encrypted data (salt, iv, ciphertext)
+ */
+export async function encryptString(pin: string, plaintext: string): Promise<string> {
   const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
-  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
 
   // Derive encryption key from PIN
-  const key = await deriveKeyFromPin(pin, salt);
+  const key = await deriveKeyFromPin(pin, salt, DEFAULT_KDF);
+  return encryptWithKey(key, salt, DEFAULT_KDF, plaintext);
+}
 
-  // Convert private key to bytes
+/**
+ * Decrypts a string encrypted with encryptString
+ * @param pin - The PIN or passphrase used for encryption
+ * @param encryptedText - JSON string containing encrypted data
+ * @param derivedKeys - Keys derived from this PIN before, reused and added to
+ * @returns The decrypted text
+ * @throws Error if decryption fails (wrong PIN or corrupted data)
+ */
+export async function decryptString(
+  pin: string,
+  encryptedText: string,
+  derivedKeys?: DerivedKeys
+): Promise<string> {
+  const encryptedData = parseEncryptedData(encryptedText);
+  const kdf = encryptedData.kdf ?? LEGACY_KDF;
+  const cacheKey = `${encryptedData.salt}:${JSON.stringify(kdf)}`;
+  const cached = derivedKeys?.get(cacheKey);
+  if (cached) {
+    return decryptWithKey(cached, encryptedData);
+  }
+
+  // Derive encryption key from PIN, and keep it once it has proven right
+  const key = await deriveKeyFromPin(pin, base64ToUint8Array(encryptedData.salt), kdf);
+  const plaintext = await decryptWithKey(key, encryptedData);
+  derivedKeys?.set(cacheKey, key);
+  return plaintext;
+}
+
+/**
+ * Encrypts a string with 32 bytes of key material instead of a PIN
+ * @param keyMaterial - High-entropy secret, such as a WebAuthn PRF output
+ * @param plaintext - The text to encrypt
+ * @returns JSON string containing encrypted data (salt, iv, ciphertext)
+ */
+export async function encryptWithKeyMaterial(keyMaterial: Uint8Array, plaintext: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  const key = await deriveKeyFromMaterial(keyMaterial, salt);
+  return encryptWithKey(key, salt, KEY_MATERIAL_KDF, plaintext);
+}
+
+/**
+ * Decrypts a string encrypted with encryptWithKeyMaterial
+ * @param keyMaterial - The key material used for encryption
+ * @param encryptedText - JSON string containing encrypted data
+ * @returns The decrypted text
+ * @throws Error if decryption fails (other key material or corrupted data)
+ */
+export async function decryptWithKeyMaterial(keyMaterial: Uint8Array, encryptedText: string): Promise<string> {
+  const encryptedData = parseEncryptedData(encryptedText);
+  if (encryptedData.kdf?.name !== KEY_MATERIAL_KDF.name) {
+    throw new Error('Data was not encrypted with key material');
+  }
+  const key = await deriveKeyFromMaterial(keyMaterial, base64ToUint8Array(encryptedData.salt));
+  return decryptWithKey(key, encryptedData);
+}
+
+function parseEncryptedData(encryptedText: string): EncryptedData {
+  try {
+    return JSON.parse(encryptedText);
+  } catch (error) {
+    throw new Error('Invalid encrypted data format');
+  }
+}
+
+/**
+ * Encrypts text with AES-GCM and packs it with the parameters needed to decrypt it
+ */
+async function encryptWithKey(key: CryptoKey, salt: Uint8Array, kdf: KdfParams, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  // Convert plaintext to bytes
   const encoder = new TextEncoder();
-  const privateKeyBytes = encoder.encode(privateKey);
+  const plaintextBytes = encoder.encode(plaintext);
 
   try {
     // Encrypt
@@ -78,11 +256,12 @@ export async function encryptPrivateKey(pin: string, privateKey: string): Promis
         iv: iv
       },
       key,
-      privateKeyBytes
+      plaintextBytes
     );
 
     // Convert to base64 for storage
     const encryptedData: EncryptedData = {
+      kdf,
       salt: arrayBufferToBase64(salt),
       iv: arrayBufferToBase64(iv),
       ciphertext: arrayBufferToBase64(ciphertext)
@@ -90,34 +269,19 @@ export async function encryptPrivateKey(pin: string, privateKey: string): Promis
 
     return JSON.stringify(encryptedData);
   } finally {
-    // Clear private key bytes from memory
-    clearUint8Array(privateKeyBytes);
+    // Clear plaintext bytes from memory
+    clearUint8Array(plaintextBytes);
   }
 }
 
 /**
- * Decrypts a private key using a PIN
- * @param pin - The PIN used for encryption
- * @param encryptedKey - JSON string containing encrypted data
- * @returns The decrypted private key (hex string)
- * @throws Error if decryption fails (wrong PIN or corrupted data)
+ * Decrypts AES-GCM encrypted data with an already derived key
  */
-export async function decryptPrivateKey(pin: string, encryptedKey: string): Promise<string> {
-  let encryptedData: EncryptedData;
-  try {
-    encryptedData = JSON.parse(encryptedKey);
-  } catch (error) {
-    throw new Error('Invalid encrypted key format');
-  }
-
+async function decryptWithKey(key: CryptoKey, encryptedData: EncryptedData): Promise<string> {
   // Convert from base64
-  const salt = base64ToUint8Array(encryptedData.salt);
   const iv = base64ToUint8Array(encryptedData.iv);
   const ciphertext = base64ToUint8Array(encryptedData.ciphertext);
 
-  // Derive encryption key from PIN
-  const key = await deriveKeyFromPin(pin, salt);
-
   // Decrypt
   let decryptedBytes: ArrayBuffer;
   try {
@@ -138,8 +302,7 @@ export async function decryptPrivateKey(pin: string, encryptedKey: string): Prom
   try {
     // Convert back to string
     const decoder = new TextDecoder();
-    const decryptedKey = decoder.decode(decryptedBytes);
-    return decryptedKey;
+    return decoder.decode(decryptedBytes);
   } finally {
     // Clear decrypted bytes from memory
     // Note: ArrayBuffer cannot be directly cleared, but we clear the view
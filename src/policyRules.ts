@@ -0,0 +1,118 @@
+/**
+ * Policy rules — user-defined, ordered auto-approval rules
+ * Rules are pure data; matching has no side effects so the same code runs in
+ * the background script and in the Options page dry-run tester.
+ */
+
+import {
+  type AuditLogEntry,
+  type Capability,
+  type PolicyRequest,
+  type PolicyRule,
+  ALL_CAPABILITIES,
+} from './types';
+
+/** Read-only capabilities are auto-approved before rules are consulted */
+export const RULE_CAPABILITIES: Capability[] = ALL_CAPABILITIES.filter(
+  c => c !== 'getPublicKey' && c !== 'getRelays'
+);
+
+/** Audit dispositions of requests that were blocked before reaching the permission check */
+const PRE_CHECK_DISPOSITIONS = new Set(['rate-limited', 'cooldown', 'queue-full', 'deduped', 'unauthorized']);
+
+/**
+ * Checks whether a host matches a rule host pattern
+ * @param pattern - "*", "*.example.com" (example.com and its subdomains) or an exact host
+ * @param host - The requesting host
+ */
+export function matchHostPattern(pattern: string, host: string): boolean {
+  const p = pattern.trim().toLowerCase();
+  const h = host.toLowerCase();
+  if (p === '*') return true;
+  if (p.startsWith('*.')) {
+    const domain = p.substring(2);
+    return h === domain || h.endsWith(`.${domain}`);
+  }
+  return p === h;
+}
+
+/**
+ * Checks whether every condition of a rule matches a request.
+ * Kind and content conditions never match requests that don't carry an event.
+ */
+export function matchPolicyRule(rule: PolicyRule, request: PolicyRequest): boolean {
+  if (!matchHostPattern(rule.hostPattern, request.host)) return false;
+  if (rule.capabilities.length > 0 && !rule.capabilities.includes(request.capability)) {
+    return false;
+  }
+  if (rule.kinds.length > 0 && (request.kind === undefined || !rule.kinds.includes(request.kind))) {
+    return false;
+  }
+  if (
+    rule.maxContentLength !== undefined &&
+    (request.contentLength === undefined || request.contentLength >= rule.maxContentLength)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Finds the first enabled rule matching a request
+ * @returns The matching rule, or null if no rule applies
+ */
+export function findMatchingRule(rules: PolicyRule[], request: PolicyRequest): PolicyRule | null {
+  return rules.find(rule => rule.enabled && matchPolicyRule(rule, request)) ?? null;
+}
+
+/**
+ * Finds the rule that decides a signEvents batch, checking each event as a signEvent
+ * request the way the background does: a rejecting rule on any event rejects the
+ * batch, a prompting one prompts for it, and it is only approved by a rule if every
+ * event is. Null when no rule decides and the batch falls through to grants.
+ */
+function findBatchRule(rules: PolicyRule[], entry: AuditLogEntry): PolicyRule | null {
+  const matches = (entry.batch ?? []).map(event =>
+    findMatchingRule(rules, {
+      host: entry.host,
+      capability: 'signEvent',
+      kind: event.eventKind,
+      contentLength: event.contentLength,
+    })
+  );
+  const rejecting = matches.find(rule => rule?.action === 'reject');
+  if (rejecting) return rejecting;
+  const prompting = matches.find(rule => rule?.action === 'prompt');
+  if (prompting) return prompting;
+  return matches.length > 0 && matches.every(Boolean) ? matches[0] : null;
+}
+
+/**
+ * Replays past audit entries against a rule list without changing anything
+ * Entries for read-only capabilities and requests blocked by anti-spam are skipped,
+ * since they never reach rule evaluation. signEvents batches are checked event by event.
+ * @returns One result per replayed entry, with the rule that would have decided it
+ */
+export function dryRunPolicyRules(
+  rules: PolicyRule[],
+  entries: AuditLogEntry[]
+): { entry: AuditLogEntry; rule: PolicyRule | null }[] {
+  return entries
+    .filter(
+      entry =>
+        (RULE_CAPABILITIES.includes(entry.type as Capability) || (entry.type === 'signEvents' && entry.batch)) &&
+        !PRE_CHECK_DISPOSITIONS.has(entry.disposition)
+    )
+    .map(entry => ({
+      entry,
+      rule:
+        entry.type === 'signEvents'
+          ? findBatchRule(rules, entry)
+          : findMatchingRule(rules, {
+              host: entry.host,
+              capability: entry.type as Capability,
+              kind: entry.eventKind,
+              contentLength: entry.contentLength,
+            }),
+    }));
+}
@@ -6,17 +6,20 @@ import { nip19 } from 'nostr-tools';
 import {
   type ProfilesConfig,
   type SitePermissions,
+  type CapabilityGrant,
   type AuditLogEntry,
   type Capability,
   CAPABILITY_INFO,
 } from './types';
 import * as Storage from './storage';
 import { truncatePublicKeys } from './common';
+import { rpcCall } from './rpc';
 
 import CopyIcon from './assets/icons/copy-outline.svg';
 import CogIcon from './assets/icons/cog-outline.svg';
 import TrashIcon from './assets/icons/trash-outline.svg';
 import CloseCircleIcon from './assets/icons/close-circle-outline.svg';
+import LockIcon from './assets/icons/lock-closed-outline.svg';
 
 //#region Helpers >>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>
 
@@ -27,8 +30,14 @@ const DISPOSITION_STYLE: Record<string, { label: string; cls: string }> = {
   'rate-limited':  { label: 'Rate Limited',  cls: 'disp-blocked' },
   'cooldown':      { label: 'Cooldown',      cls: 'disp-blocked' },
   'queue-full':    { label: 'Queue Full',    cls: 'disp-blocked' },
+  'unauthorized':  { label: 'Not Allowed',   cls: 'disp-blocked' },
   'deduped':       { label: 'Dedup',         cls: 'disp-muted' },
   'relay-auth':    { label: 'Relay Auth',     cls: 'disp-auto' },
+  'policy-approved': { label: 'Rule',        cls: 'disp-auto' },
+  'policy-rejected': { label: 'Rule Denied', cls: 'disp-rejected' },
+  'pin-unlocked':  { label: 'PIN OK',        cls: 'disp-approved' },
+  'pin-failed':    { label: 'Wrong PIN',     cls: 'disp-rejected' },
+  'pin-locked':    { label: 'PIN Locked',    cls: 'disp-blocked' },
   'error':         { label: 'Error',         cls: 'disp-error' },
 };
 
@@ -48,6 +57,12 @@ function timeAgo(iso: string): string {
   } catch { return ''; }
 }
 
+function profileLabel(profiles: ProfilesConfig, pubkey: string): string {
+  const prof = profiles[pubkey];
+  if (prof?.name) return prof.name;
+  try { return truncatePublicKeys(nip19.npubEncode(pubkey), 10, 10) as string; } catch { return pubkey.substring(0, 12) + '…'; }
+}
+
 //#endregion Helpers <<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<
 
 //#region Audit Panel >>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>
@@ -68,20 +83,20 @@ class AuditPanel extends Component<{}, AuditPanelState> {
   componentDidMount() {
     this.load();
     Storage.readProfiles().then(p => { if (p) this.setState({ profiles: p }); });
-    browser.runtime.sendMessage({ type: 'clearSuppressedCount' }).catch(() => {});
+    rpcCall('clearSuppressedCount', {}).catch(() => {});
     this.poll = setInterval(() => this.load(), 2500);
   }
   componentWillUnmount() { if (this.poll) clearInterval(this.poll); }
 
   load = async () => {
     try {
-      const r: any = await browser.runtime.sendMessage({ type: 'getActivityLog' });
-      if (r?.entries) this.setState({ entries: r.entries, suppressedCount: r.suppressedCount ?? 0 });
+      const r = await rpcCall('getActivityLog', {});
+      this.setState({ entries: r.entries, suppressedCount: r.suppressedCount });
     } catch {}
   };
 
   clear = async () => {
-    await browser.runtime.sendMessage({ type: 'clearActivityLog' });
+    await rpcCall('clearActivityLog', {});
     this.setState({ entries: [], suppressedCount: 0, expandedGroups: new Set() });
   };
 
@@ -91,12 +106,6 @@ class AuditPanel extends Component<{}, AuditPanelState> {
     this.setState({ expandedGroups: next });
   };
 
-  profileLabel(pubkey: string): string {
-    const prof = this.state.profiles[pubkey];
-    if (prof?.name) return prof.name;
-    try { return truncatePublicKeys(nip19.npubEncode(pubkey), 10, 10) as string; } catch { return pubkey.substring(0, 12) + '…'; }
-  }
-
   render() {
     const { entries, expandedGroups, profiles } = this.state;
     const list = [...entries].reverse();
@@ -130,7 +139,7 @@ class AuditPanel extends Component<{}, AuditPanelState> {
                   <div key={pk} className="audit-profile-group">
                     {pubkeys.length > 1 && (
                       <div className="audit-profile-header">
-                        <span className="audit-profile-label">{pk === '_unknown' ? 'Unknown profile' : this.profileLabel(pk)}</span>
+                        <span className="audit-profile-label">{pk === '_unknown' ? 'Unknown profile' : profileLabel(profiles, pk)}</span>
                         <span className="audit-group-count">{totalForProfile}</span>
                       </div>
                     )}
@@ -149,7 +158,7 @@ class AuditPanel extends Component<{}, AuditPanelState> {
                           {visible.map(e => (
                             <div key={e.id} className={`audit-row${e.silent ? ' audit-silent' : ''}`}>
                               <div className="audit-left">
-                                <span className="audit-summary">{e.summary}</span>
+                                <span className="audit-summary" title={e.ruleName ? `Rule: ${e.ruleName}` : undefined}>{e.summary}</span>
                               </div>
                               <div className="audit-right">
                                 <DispChip disposition={e.disposition} />
@@ -185,35 +194,44 @@ class AuditPanel extends Component<{}, AuditPanelState> {
 
 //#region Sites Panel >>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>
 
-interface SitesPanelState { permissions: SitePermissions; }
+interface SitesPanelState { permissions: SitePermissions; profiles: ProfilesConfig; }
 
 class SitesPanel extends Component<{}, SitesPanelState> {
-  state: SitesPanelState = { permissions: {} };
+  state: SitesPanelState = { permissions: {}, profiles: {} };
 
-  componentDidMount() { this.load(); }
+  componentDidMount() {
+    this.load();
+    Storage.readProfiles().then(p => { if (p) this.setState({ profiles: p }); });
+  }
 
   load = async () => {
     try {
-      const r: any = await browser.runtime.sendMessage({ type: 'getSitePermissions' });
-      if (r?.permissions) this.setState({ permissions: r.permissions });
+      const r = await rpcCall('getSitePermissions', {});
+      this.setState({ permissions: r.permissions });
     } catch {}
   };
 
-  revokeGrant = async (host: string, cap: Capability) => {
-    await browser.runtime.sendMessage({ type: 'revokeGrant', host, capability: cap });
+  revokeGrant = async (host: string, cap: Capability, profilePubKey: string) => {
+    await rpcCall('revokeGrant', { host, capability: cap, profilePubKey });
     this.load();
   };
-  revokeAll = async (host: string) => {
-    await browser.runtime.sendMessage({ type: 'revokeAllGrants', host });
+  revokeAll = async (host: string, profilePubKey: string) => {
+    await rpcCall('revokeAllGrants', { host, profilePubKey });
     this.load();
   };
   removeSite = async (host: string) => {
-    await browser.runtime.sendMessage({ type: 'removeSite', host });
+    await rpcCall('removeSite', { host });
+    this.load();
+  };
+  bindProfile = async (host: string, profilePubKey: string | null) => {
+    await rpcCall('setSiteProfile', { host, profilePubKey });
     this.load();
   };
 
   render() {
-    const sites = Object.values(this.state.permissions);
+    const { permissions, profiles } = this.state;
+    const profileKeys = Object.keys(profiles);
+    const sites = Object.values(permissions);
     const now = Math.floor(Date.now() / 1000);
 
     if (!sites.length) {
@@ -224,6 +242,9 @@ class SitesPanel extends Component<{}, SitesPanelState> {
       <div className="panel sites-panel">
         {sites.map(site => {
           const active = site.grants.filter(g => g.expires_at === null || g.expires_at > now);
+          // Grants are per profile — group them so it's clear which identity the site can use
+          const byProfile: Record<string, CapabilityGrant[]> = {};
+          for (const g of active) (byProfile[g.profilePubKey] ||= []).push(g);
           return (
             <div key={site.host} className="site-card">
               <div className="site-card-top">
@@ -235,21 +256,35 @@ class SitesPanel extends Component<{}, SitesPanelState> {
                   <TrashIcon />
                 </button>
               </div>
-              {active.length > 0 ? (
-                <div className="grant-chips">
-                  {active.map(g => {
-                    const info = CAPABILITY_INFO[g.capability];
-                    return (
-                      <span key={g.capability} className="grant-chip">
-                        {info?.label || g.capability}
-                        <button className="grant-chip-x" onClick={() => this.revokeGrant(site.host, g.capability)} title="Revoke">×</button>
-                      </span>
-                    );
-                  })}
-                  {active.length > 1 && (
-                    <button className="link-btn link-btn-danger" onClick={() => this.revokeAll(site.host)}>Revoke all</button>
-                  )}
+              {profileKeys.length > 1 && (
+                <div className="site-profile-binding">
+                  <span>Sign as</span>
+                  <select value={site.boundProfilePubKey || ''} onChange={(e: any) => this.bindProfile(site.host, e.target.value || null)}>
+                    <option value="">Active profile</option>
+                    {profileKeys.map(pk => (
+                      <option value={pk} key={pk}>{profileLabel(profiles, pk)}</option>
+                    ))}
+                  </select>
                 </div>
+              )}
+              {active.length > 0 ? (
+                Object.entries(byProfile).map(([pk, grants]) => (
+                  <div key={pk} className="grant-chips">
+                    <span className="grant-chips-profile">{profileLabel(profiles, pk)}</span>
+                    {grants.map(g => {
+                      const info = CAPABILITY_INFO[g.capability];
+                      return (
+                        <span key={g.capability} className="grant-chip">
+                          {info?.label || g.capability}
+                          <button className="grant-chip-x" onClick={() => this.revokeGrant(site.host, g.capability, pk)} title="Revoke">×</button>
+                        </span>
+                      );
+                    })}
+                    {grants.length > 1 && (
+                      <button className="link-btn link-btn-danger" onClick={() => this.revokeAll(site.host, pk)}>Revoke all</button>
+                    )}
+                  </div>
+                ))
               ) : (
                 <span className="site-no-grants">No active permissions</span>
               )}
@@ -298,15 +333,8 @@ class IdentityPanel extends Component<{}, IdentityPanelState> {
   switchProfile = async (e: any) => {
     const pk = e.target.value;
     this.setState({ pubHex: pk, pubNpub: nip19.npubEncode(pk) });
-    const profile = this.state.profiles[pk];
-    if (!profile) return;
-    await Storage.setActivePublicKey(pk);
-    const pinOn = await Storage.isPinEnabled();
-    if (pinOn) {
-      if (profile.privateKey) await Storage.setEncryptedPrivateKey(profile.privateKey);
-    } else {
-      await Storage.updateActivePrivateKey(profile.privateKey);
-    }
+    if (!this.state.profiles[pk]) return;
+    await Storage.activateProfile(pk);
   };
 
   copyKey = () => {
@@ -370,15 +398,19 @@ class IdentityPanel extends Component<{}, IdentityPanelState> {
 
 type Tab = 'identity' | 'sites' | 'audit';
 
-interface PopupState { tab: Tab; badge: number; }
+interface PopupState { tab: Tab; badge: number; canLock: boolean; }
 
 class Popup extends Component<{}, PopupState> {
-  state: PopupState = { tab: 'identity', badge: 0 };
+  state: PopupState = { tab: 'identity', badge: 0, canLock: false };
 
   componentDidMount() {
-    browser.runtime.sendMessage({ type: 'getActivityLog' }).then((r: any) => {
-      if (r?.suppressedCount) this.setState({ badge: r.suppressedCount });
+    rpcCall('getActivityLog', {}).then(r => {
+      if (r.suppressedCount) this.setState({ badge: r.suppressedCount });
     }).catch(() => {});
+    // Locking only matters when some key needs a PIN
+    Promise.all([Storage.isPinEnabled(), Storage.readProfiles()]).then(([pinEnabled, profiles]) => {
+      this.setState({ canLock: pinEnabled || Object.values(profiles || {}).some(p => p.ownPin) });
+    });
   }
 
   setTab = (t: Tab) => {
@@ -391,8 +423,13 @@ class Popup extends Component<{}, PopupState> {
     }).finally(() => window.close());
   };
 
+  lockNow = async () => {
+    await rpcCall('lockNow', {});
+    window.close();
+  };
+
   render() {
-    const { tab, badge } = this.state;
+    const { tab, badge, canLock } = this.state;
 
     return (
       <div className="popup-shell">
@@ -401,9 +438,16 @@ class Popup extends Component<{}, PopupState> {
             <span className="popup-logo-icon">{'\u{1F438}'}</span>
             <span className="popup-logo-name">nos2x-frog</span>
           </div>
-          <button className="popup-header-settings" onClick={this.openOptions} title="Settings">
-            <CogIcon />
-          </button>
+          <div className="popup-header-actions">
+            {canLock && (
+              <button className="popup-header-settings" onClick={this.lockNow} title="Lock now">
+                <LockIcon />
+              </button>
+            )}
+            <button className="popup-header-settings" onClick={this.openOptions} title="Settings">
+              <CogIcon />
+            </button>
+          </div>
         </header>
 
         <nav className="popup-nav">
@@ -5,13 +5,15 @@ import { nip19 } from 'nostr-tools';
 
 import {
   truncatePublicKeys,
-  derivePublicKeyFromPrivateKey
+  derivePublicKeyFromPrivateKey,
+  getRelayAuthUrl
 } from './common';
 import {
   type Capability,
   type KindRiskTier,
   type OpenPromptItem,
   type ProfileConfig,
+  type ProfilesConfig,
   type PromptResponse,
   CAPABILITY_INFO,
   PermissionDuration,
@@ -20,6 +22,8 @@ import {
 } from './types';
 import * as Storage from './storage';
 import { subscribeOpenPrompts } from './PromptManager';
+import { type ZapRequestInfo, inspectZapRequest, fetchRecipientLightningDomain } from './zapRequest';
+import { rpcCall } from './rpc';
 
 import ShieldCheckmarkIcon from './assets/icons/shield-checkmark-outline.svg';
 import TimerIcon from './assets/icons/timer-outline.svg';
@@ -90,6 +94,10 @@ function EventDetail({ params, capability }: { params: any; capability: Capabili
     );
   }
 
+  if (capability === 'signEvent' && params?.event?.kind === 9734) {
+    return <ZapRequestDetail event={params.event} />;
+  }
+
   if (capability === 'signEvent' && params?.event) {
     const event = params.event;
     const kind = event.kind;
@@ -145,6 +153,29 @@ function EventDetail({ params, capability }: { params: any; capability: Capabili
     );
   }
 
+  if (capability === 'signEvent' && Array.isArray(params?.events)) {
+    return (
+      <div className="event-detail">
+        <div className="event-detail-row">
+          <span className="event-detail-label">Events</span>
+          <span className="event-detail-value">{params.events.length} to sign together</span>
+        </div>
+        {params.events.map((event: any, i: number) => {
+          const risk = RISK_LABELS[getKindRisk(event.kind)];
+          return (
+            <details key={i} className="batch-event">
+              <summary>
+                <span className="batch-event-index">{i + 1}.</span> <code>{event.kind}</code> — {getKindName(event.kind)}
+                <span className={`batch-event-risk ${risk.cls}`}>{risk.label}</span>
+              </summary>
+              <EventDetail params={{ event }} capability="signEvent" />
+            </details>
+          );
+        })}
+      </div>
+    );
+  }
+
   if ((capability === 'nip04.encrypt' || capability === 'nip44.encrypt') && params?.peer) {
     return (
       <div className="event-detail">
@@ -186,6 +217,128 @@ function EventDetail({ params, capability }: { params: any; capability: Capabili
   return null;
 }
 
+/**
+ * Zap request (kind 9734) breakdown: amount, recipient, zapped event, LNURL server and relays.
+ * The LNURL domain is compared with the recipient's lightning address, looked up on the user's relays.
+ */
+class ZapRequestDetail extends Component<
+  { event: any },
+  { info: ZapRequestInfo | null; recipientDomain: string | null | undefined }
+> {
+  state = { info: null as ZapRequestInfo | null, recipientDomain: undefined as string | null | undefined };
+
+  componentDidMount() {
+    this.inspect();
+  }
+
+  componentDidUpdate(prevProps: { event: any }) {
+    if (prevProps.event !== this.props.event) this.inspect();
+  }
+
+  async inspect() {
+    const { event } = this.props;
+    const { zapWarningThresholdSats } = await Storage.readSecurityPreferences();
+    const info = inspectZapRequest(event, zapWarningThresholdSats);
+    if (this.props.event !== event) return;
+    this.setState({ info, recipientDomain: undefined });
+
+    if (info.recipients.length !== 1 || !info.lnurlDomain) return;
+    const relays = Object.entries(await Storage.readActiveRelays())
+      .filter(([, relay]) => relay.read)
+      .map(([url]) => url);
+    const recipientDomain = await fetchRecipientLightningDomain(info.recipients[0], relays);
+    if (this.props.event === event) this.setState({ recipientDomain });
+  }
+
+  renderLnurlCheck(info: ZapRequestInfo) {
+    const { recipientDomain } = this.state;
+    if (info.recipients.length !== 1 || !info.lnurlDomain) return null;
+    if (recipientDomain === undefined) return <span className="zap-check">Checking the recipient's lightning address…</span>;
+    if (recipientDomain === null) return <span className="zap-check">Recipient's lightning address not found</span>;
+    if (recipientDomain === info.lnurlDomain) {
+      return <span className="zap-check zap-check-ok">Matches the recipient's lightning address</span>;
+    }
+    return null;
+  }
+
+  render() {
+    const { info, recipientDomain } = this.state;
+    if (!info) return null;
+    const warnings = [...info.warnings];
+    if (recipientDomain && info.lnurlDomain && recipientDomain !== info.lnurlDomain) {
+      warnings.push(`Payment goes through ${info.lnurlDomain}, but the recipient's lightning address is at ${recipientDomain}.`);
+    }
+
+    return (
+      <div>
+        <div className="event-detail">
+          <div className="event-detail-row">
+            <span className="event-detail-label">Event Kind</span>
+            <span className="event-detail-value">
+              <code>9734</code> — Zap Request
+            </span>
+          </div>
+          <div className="event-detail-row">
+            <span className="event-detail-label">Amount</span>
+            <span className="event-detail-value zap-amount">
+              {info.amountSats !== null ? `${info.amountSats.toLocaleString()} sats` : 'Not set'}
+            </span>
+          </div>
+          <div className="event-detail-row">
+            <span className="event-detail-label">To</span>
+            <span className="event-detail-value">
+              {info.recipients.map((p: string) => (
+                <code key={p} className="event-detail-pubkey">{p.substring(0, 12)}...</code>
+              ))}
+            </span>
+          </div>
+          {(info.eventId || info.address) && (
+            <div className="event-detail-row">
+              <span className="event-detail-label">Zapping</span>
+              <span className="event-detail-value">
+                {info.eventId && <code className="event-detail-pubkey">{info.eventId.substring(0, 12)}...</code>}
+                {info.address && <code className="event-detail-pubkey">{truncateContent(info.address, 40)}</code>}
+              </span>
+            </div>
+          )}
+          <div className="event-detail-row">
+            <span className="event-detail-label">Paid via</span>
+            <span className="event-detail-value">
+              {info.lnurlDomain ? <strong title={info.lnurlUrl ?? undefined}>{info.lnurlDomain}</strong> : 'No lnurl tag'}
+              {this.renderLnurlCheck(info)}
+            </span>
+          </div>
+          {info.relays.length > 0 && (
+            <div className="event-detail-row">
+              <span className="event-detail-label">Relays ({info.relays.length})</span>
+              <span className="event-detail-value">
+                {info.relays.slice(0, 3).map((relay: string) => (
+                  <code key={relay} className="event-detail-pubkey">{relay}</code>
+                ))}
+                {info.relays.length > 3 && <span> +{info.relays.length - 3} more</span>}
+              </span>
+            </div>
+          )}
+          {info.comment && (
+            <div className="event-detail-row">
+              <span className="event-detail-label">Comment</span>
+              <span className="event-detail-value event-detail-content">{truncateContent(info.comment, 200)}</span>
+            </div>
+          )}
+        </div>
+        {warnings.length > 0 && (
+          <div className="alert warning zap-warnings">
+            <WarningIcon />
+            <ul>
+              {warnings.map(warning => <li key={warning}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  }
+}
+
 //#endregion Event Detail Component -------------------------------------------
 
 //#region Site Trust Badge ----------------------------------------------------
@@ -224,11 +377,16 @@ interface PromptState {
   openPrompts: OpenPromptItem[];
   activeProfile: ProfileConfig | undefined;
   activePubKeyNIP19: string;
+  profiles: ProfilesConfig;
   activePromptIndex: number;
   selectedDuration: PermissionDuration;
   rememberChoice: boolean;
+  trustRelay: boolean;
+  bindProfile: boolean;
   showRawData: boolean;
   showCloseConfirmation: boolean;
+  /** Capabilities the user unticked in a requestPermissions prompt */
+  declinedCapabilities: Capability[];
 }
 
 class Prompt extends Component<{}, PromptState> {
@@ -236,11 +394,15 @@ class Prompt extends Component<{}, PromptState> {
     openPrompts: [],
     activeProfile: undefined,
     activePubKeyNIP19: '',
+    profiles: {},
     activePromptIndex: 0,
     selectedDuration: PermissionDuration.ONCE,
     rememberChoice: false,
+    trustRelay: false,
+    bindProfile: false,
     showRawData: false,
     showCloseConfirmation: false,
+    declinedCapabilities: [],
   };
 
   private unsubscribePrompts: (() => void) | null = null;
@@ -267,6 +429,8 @@ class Prompt extends Component<{}, PromptState> {
       }
     });
 
+    Storage.readProfiles().then(profiles => this.setState({ profiles }));
+
     this.unsubscribePrompts = subscribeOpenPrompts((prompts) => {
       this.setState({ openPrompts: prompts }, () => {
         this.updateBeforeUnload();
@@ -302,22 +466,82 @@ class Prompt extends Component<{}, PromptState> {
     }
   }
 
+  /**
+   * Duration the decision will use. A permission request always stores grants, so
+   * "just this once" falls back to the session; a longer one is only ever the user's pick.
+   */
+  getEffectiveDuration(prompt: OpenPromptItem): PermissionDuration {
+    const { selectedDuration } = this.state;
+    if (prompt.params?.permissions && selectedDuration === PermissionDuration.ONCE) {
+      return PermissionDuration.SESSION;
+    }
+    return selectedDuration;
+  }
+
   sendDecision = (action: 'approve' | 'reject', prompt: OpenPromptItem) => {
-    const { selectedDuration, rememberChoice } = this.state;
+    const { rememberChoice, trustRelay, bindProfile, declinedCapabilities } = this.state;
+    const request = prompt.params?.permissions;
+    const capabilities = request
+      ? request.capabilities.filter(cap => !declinedCapabilities.includes(cap))
+      : [prompt.capability];
     const response: PromptResponse = {
-      prompt: true,
       id: prompt.id,
       host: prompt.host,
       decision: {
         action,
-        capabilities: action === 'approve' ? [prompt.capability] : [],
-        duration: selectedDuration,
-        remember: action === 'approve' ? rememberChoice : false,
+        capabilities: action === 'approve' ? capabilities : [],
+        duration: this.getEffectiveDuration(prompt),
+        allowedKinds: request?.kinds,
+        remember: action === 'approve' ? rememberChoice || !!request : false,
+        trustRelay: action === 'approve' ? trustRelay : false,
+        bindProfile: action === 'approve' ? bindProfile : false,
       },
     };
-    browser.runtime.sendMessage(response);
+    rpcCall('promptResponse', response);
+    // Durations, relay trust, profile binding and declined capabilities are specific to one prompt — never carry them over
+    this.setState({
+      selectedDuration: PermissionDuration.ONCE,
+      trustRelay: false,
+      bindProfile: false,
+      declinedCapabilities: [],
+    });
   };
 
+  toggleDeclinedCapability = (cap: Capability) => {
+    const { declinedCapabilities } = this.state;
+    this.setState({
+      declinedCapabilities: declinedCapabilities.includes(cap)
+        ? declinedCapabilities.filter(c => c !== cap)
+        : [...declinedCapabilities, cap],
+    });
+  };
+
+  renderPermissionRequest(prompt: OpenPromptItem) {
+    const { declinedCapabilities } = this.state;
+    const { capabilities, kinds, duration } = prompt.params.permissions;
+    const suggested = DURATION_OPTIONS.find(opt => opt.value === duration);
+    return (
+      <div className="event-detail">
+        {capabilities.map(cap => (
+          <label key={cap} className="prompt-remember">
+            <input
+              type="checkbox"
+              checked={!declinedCapabilities.includes(cap)}
+              onChange={() => this.toggleDeclinedCapability(cap)}
+            />
+            <strong>{CAPABILITY_INFO[cap].label}</strong> — {CAPABILITY_INFO[cap].description}
+            {cap === 'signEvent' && kinds?.length > 0 && (
+              <span> (only {kinds.map(kind => getKindName(kind)).join(', ')})</span>
+            )}
+          </label>
+        ))}
+        {suggested && suggested.value !== PermissionDuration.SESSION && (
+          <p className="prompt-remember">The site asks for {suggested.label.toLowerCase()}; pick it below to agree.</p>
+        )}
+      </div>
+    );
+  }
+
   handleApprove = (ev: any) => {
     ev.preventDefault();
     const { openPrompts, activePromptIndex } = this.state;
@@ -347,7 +571,7 @@ class Prompt extends Component<{}, PromptState> {
       let newIndex = activePromptIndex + direction;
       if (newIndex < 0) newIndex = 0;
       if (newIndex >= openPrompts.length) newIndex = openPrompts.length - 1;
-      this.setState({ activePromptIndex: newIndex });
+      this.setState({ activePromptIndex: newIndex, trustRelay: false, bindProfile: false, declinedCapabilities: [] });
     }
   };
 
@@ -356,8 +580,8 @@ class Prompt extends Component<{}, PromptState> {
 
   render() {
     const {
-      openPrompts, activePromptIndex, activeProfile, activePubKeyNIP19,
-      selectedDuration, rememberChoice, showRawData, showCloseConfirmation
+      openPrompts, activePromptIndex, activeProfile, activePubKeyNIP19, profiles,
+      selectedDuration, rememberChoice, trustRelay, bindProfile, showRawData, showCloseConfirmation
     } = this.state;
 
     if (!openPrompts?.length) {
@@ -365,15 +589,22 @@ class Prompt extends Component<{}, PromptState> {
     }
 
     const current = openPrompts[activePromptIndex];
+    // Grants are per profile, so show the profile this request was raised for
+    const promptProfile = current.profilePubKey ? profiles[current.profilePubKey] : activeProfile;
+    const promptNpub = current.profilePubKey ? nip19.npubEncode(current.profilePubKey) : activePubKeyNIP19;
     const capInfo = CAPABILITY_INFO[current.capability];
     const riskTier = current.riskTier
       || (current.capability === 'signEvent' && current.params?.event
         ? getKindRisk(current.params.event.kind)
         : capInfo?.risk || 'medium');
+    const batchSize = current.params?.events?.length ?? 0;
+    const permissionRequest = current.params?.permissions;
+    const effectiveDuration = this.getEffectiveDuration(current);
     const riskInfo = RISK_LABELS[riskTier];
     const FLOOD_THRESHOLD = 10;
     const isFlood = openPrompts.length >= FLOOD_THRESHOLD;
     const isCritical = riskTier === 'critical';
+    const relayAuthUrl = current.capability === 'signEvent' ? getRelayAuthUrl(current.params?.event) : null;
 
     return (
       <>
@@ -422,7 +653,7 @@ class Prompt extends Component<{}, PromptState> {
         <div className={`prompt-risk-banner ${riskInfo.cls}`}>
           {isCritical && <WarningIcon />}
           <span className="risk-label">{riskInfo.label}</span>
-          <span className="risk-cap">{capInfo?.label || current.capability}</span>
+          <span className="risk-cap">{permissionRequest ? 'Permissions' : capInfo?.label || current.capability}</span>
         </div>
 
         {/* Site header */}
@@ -433,47 +664,77 @@ class Prompt extends Component<{}, PromptState> {
 
         {/* Capability description */}
         <div className="prompt-capability">
-          <p className="prompt-capability-desc">
-            This site wants to <strong>{capInfo?.description || current.capability}</strong>
-          </p>
+          {permissionRequest ? (
+            <p className="prompt-capability-desc">
+              This site asks for these permissions up front. Untick any you don't want to give.
+            </p>
+          ) : (
+            <p className="prompt-capability-desc">
+              This site wants to <strong>{capInfo?.description || current.capability}</strong>
+              {batchSize > 0 && <> — {batchSize} events in one request. Expand each one to review it.</>}
+            </p>
+          )}
         </div>
 
         {/* Signing profile */}
         <div className="prompt-profile">
           <span className="prompt-profile-label">Signing as:</span>
           <span className="prompt-profile-value">
-            {activeProfile?.name && <strong>{activeProfile.name}</strong>}
-            {activePubKeyNIP19 && (
-              <code>{truncatePublicKeys(activePubKeyNIP19, 10, 10)}</code>
+            {promptProfile?.name && <strong>{promptProfile.name}</strong>}
+            {promptNpub && (
+              <code>{truncatePublicKeys(promptNpub, 10, 10)}</code>
             )}
+            {current.profileBound && <span className="prompt-profile-bound">bound to this site</span>}
           </span>
         </div>
+        {current.profilePubKey && !current.profileBound && Object.keys(profiles).length > 1 && (
+          <label className="prompt-remember">
+            <input
+              type="checkbox"
+              checked={bindProfile}
+              onChange={(e: any) => this.setState({ bindProfile: e.target.checked })}
+            />
+            Always use this profile on {current.host}, whatever profile is active
+          </label>
+        )}
 
         {/* Event details */}
-        <EventDetail params={current.params} capability={current.capability} />
+        {permissionRequest
+          ? this.renderPermissionRequest(current)
+          : <EventDetail params={current.params} capability={current.capability} />}
 
         {/* Duration selector */}
         <div className="prompt-duration">
           <label className="prompt-duration-label">If approved, allow for:</label>
           <div className="prompt-duration-options">
-            {DURATION_OPTIONS.map(opt => (
+            {DURATION_OPTIONS.filter(opt => !permissionRequest || opt.value !== PermissionDuration.ONCE).map(opt => (
               <button
                 key={opt.value}
-                className={`prompt-duration-btn${selectedDuration === opt.value ? ' active' : ''}${opt.value === PermissionDuration.FOREVER ? ' duration-forever' : ''}`}
+                className={`prompt-duration-btn${effectiveDuration === opt.value ? ' active' : ''}${opt.value === PermissionDuration.FOREVER ? ' duration-forever' : ''}`}
                 onClick={() => this.setState({ selectedDuration: opt.value })}
               >
                 {opt.label}
               </button>
             ))}
           </div>
-          {selectedDuration !== PermissionDuration.ONCE && (
+          {selectedDuration !== PermissionDuration.ONCE && !permissionRequest && (
             <label className="prompt-remember">
               <input
                 type="checkbox"
                 checked={rememberChoice}
                 onChange={(e: any) => this.setState({ rememberChoice: e.target.checked })}
               />
-              Remember for this site (auto-approve future requests)
+              Remember for this site and profile (auto-approve future requests)
+            </label>
+          )}
+          {relayAuthUrl && selectedDuration !== PermissionDuration.ONCE && (
+            <label className="prompt-remember">
+              <input
+                type="checkbox"
+                checked={trustRelay}
+                onChange={(e: any) => this.setState({ trustRelay: e.target.checked })}
+              />
+              Trust this relay (auto-sign auth for <code>{relayAuthUrl}</code> from any site)
             </label>
           )}
         </div>
@@ -490,10 +751,10 @@ class Prompt extends Component<{}, PromptState> {
         {/* Action buttons */}
         <div className="prompt-action-buttons">
           <button className="button button-success" onClick={this.handleApprove}>
-            <CheckmarkCircleIcon /> Approve
+            <CheckmarkCircleIcon /> {batchSize > 0 ? `Approve all ${batchSize}` : 'Approve'}
           </button>
           <button className="button button-danger" onClick={this.handleReject}>
-            <CloseCircleIcon /> Deny
+            <CloseCircleIcon /> {batchSize > 0 ? `Reject all ${batchSize}` : 'Deny'}
           </button>
         </div>
 
@@ -0,0 +1,145 @@
+/**
+ * NIP-46 remote signer (bunker) connections
+ * One BunkerSigner per profile is kept open in the background script and
+ * requests are forwarded to it over kind:24133 events.
+ */
+
+import browser from 'webextension-polyfill';
+import { generateSecretKey } from 'nostr-tools';
+import { BunkerSigner, parseBunkerInput, toBunkerURL } from 'nostr-tools/nip46';
+
+import { type RemoteSignerConfig, NostrErrorCode } from './types';
+import { convertHexToUint8Array, convertUint8ArrayToHex, NostrRequestError } from './common';
+
+/** How long to wait for the remote signer to answer a single request */
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+/** Open signers, keyed by the profile public key they sign for */
+const signers: Map<string, BunkerSigner> = new Map();
+
+/**
+ * Opens the auth URL sent by the remote signer so the user can approve the request there
+ */
+function openAuthUrl(url: string): void {
+  browser.tabs.create({ url, active: true }).catch(error => {
+    console.error('[Ribbit Signer] Failed to open remote signer auth URL:', error);
+  });
+}
+
+/**
+ * Rejects if the remote signer does not answer within timeoutMs
+ */
+function withTimeout<T>(promise: Promise<T>, method: string, timeoutMs = REQUEST_TIMEOUT_MS): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new NostrRequestError(NostrErrorCode.TIMEOUT, `Remote signer did not answer "${method}" in time`)),
+      timeoutMs
+    );
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  });
+}
+
+/**
+ * Connects to a remote signer for the first time
+ * @param bunkerUri - bunker:// URI (or NIP-05 identifier) given by the remote signer
+ * @returns The public key the remote signer signs as, and the config to store in the profile
+ */
+export async function connectRemoteSigner(
+  bunkerUri: string
+): Promise<{ pubKey: string; config: RemoteSignerConfig }> {
+  const pointer = await parseBunkerInput(bunkerUri.trim());
+  if (!pointer) {
+    throw new Error('Invalid bunker URI');
+  }
+  if (pointer.relays.length === 0) {
+    throw new Error('Bunker URI does not specify any relay');
+  }
+
+  const clientSecretKey = generateSecretKey();
+  const signer = BunkerSigner.fromBunker(clientSecretKey, pointer, { onauth: openAuthUrl });
+  try {
+    await withTimeout(signer.connect(), 'connect');
+    const pubKey = await withTimeout(signer.getPublicKey(), 'get_public_key');
+
+    await closeRemoteSigner(pubKey);
+    signers.set(pubKey, signer);
+
+    return {
+      pubKey,
+      config: {
+        // The connect secret is single-use, don't keep it around
+        bunkerUri: toBunkerURL({ ...pointer, secret: null }),
+        clientSecretKey: convertUint8ArrayToHex(clientSecretKey)
+      }
+    };
+  } catch (error) {
+    await signer.close();
+    throw error;
+  }
+}
+
+/**
+ * Gets the open signer for a profile, re-opening it from the stored config if needed
+ */
+async function getRemoteSigner(pubKey: string, config: RemoteSignerConfig): Promise<BunkerSigner> {
+  const existing = signers.get(pubKey);
+  if (existing) return existing;
+
+  const pointer = await parseBunkerInput(config.bunkerUri);
+  if (!pointer) {
+    throw new Error('Invalid bunker URI in profile');
+  }
+  const signer = BunkerSigner.fromBunker(convertHexToUint8Array(config.clientSecretKey), pointer, {
+    onauth: openAuthUrl
+  });
+  signers.set(pubKey, signer);
+  return signer;
+}
+
+/**
+ * Runs a request against the remote signer of a profile
+ * @param pubKey - The profile public key
+ * @param config - The profile remote signer config
+ * @param method - NIP-46 method name, used in error messages
+ * @param request - The call to make on the signer
+ * @param timeoutMs - How long to wait for the answer
+ */
+export async function callRemoteSigner<T>(
+  pubKey: string,
+  config: RemoteSignerConfig,
+  method: string,
+  request: (signer: BunkerSigner) => Promise<T>,
+  timeoutMs = REQUEST_TIMEOUT_MS
+): Promise<T> {
+  const signer = await getRemoteSigner(pubKey, config);
+  try {
+    return await withTimeout(request(signer), method, timeoutMs);
+  } catch (error) {
+    // Drop the connection so the next request starts from a fresh subscription
+    await closeRemoteSigner(pubKey);
+    throw error;
+  }
+}
+
+/**
+ * Closes the open signer for a profile, if any
+ */
+export async function closeRemoteSigner(pubKey: string): Promise<void> {
+  const signer = signers.get(pubKey);
+  if (!signer) return;
+  signers.delete(pubKey);
+  try {
+    await signer.close();
+  } catch (error) {
+    console.warn('[Ribbit Signer] Failed to close remote signer:', error);
+  }
+}
@@ -11,10 +11,14 @@ import browser from 'webextension-polyfill';
 import {
   type AuditLogEntry,
   type AuditDisposition,
+  type BatchEventAudit,
+  type Capability,
   type KindRiskTier,
   type PermissionDuration,
   type PromptParams,
+  CAPABILITY_INFO,
   ConfigurationKeys,
+  getHighestKindRisk,
   getKindName,
   getKindRisk,
 } from './types';
@@ -137,6 +141,10 @@ export function logRequest(
     peer?: string;
     profilePubKey?: string;
     grantDuration?: PermissionDuration;
+    contentLength?: number;
+    ruleName?: string;
+    quotaExceeded?: boolean;
+    batch?: BatchEventAudit[];
   }
 ): AuditLogEntry {
   const entry: AuditLogEntry = {
@@ -244,6 +252,13 @@ export function onLogChange(fn: () => void): () => void {
 export function buildSummary(type: string, params: PromptParams | any): string {
   if (type === 'getPublicKey') return 'Read public key';
   if (type === 'getRelays') return 'Read relay list';
+  if (type === 'getPermissions') return 'Read granted permissions';
+  if (type === 'getInfo') return 'Read signer info';
+
+  if (type === 'requestPermissions' && Array.isArray(params?.permissions?.capabilities)) {
+    const labels = params.permissions.capabilities.map((cap: Capability) => CAPABILITY_INFO[cap]?.label ?? cap);
+    return `Request permissions: ${labels.join(', ')}`;
+  }
 
   if (type === 'signEvent' && params?.event) {
     const kind = params.event.kind;
@@ -251,6 +266,11 @@ export function buildSummary(type: string, params: PromptParams | any): string {
     return `Sign: ${name}`;
   }
 
+  if (type === 'signEvents' && Array.isArray(params?.events)) {
+    const names = [...new Set(params.events.map((e: any) => getKindName(e?.kind)))];
+    return `Sign ${params.events.length} events: ${names.join(', ')}`;
+  }
+
   if (type === 'nip04.encrypt') return `NIP-04 encrypt → ${shortHex(params?.peer)}`;
   if (type === 'nip04.decrypt') return `NIP-04 decrypt ← ${shortHex(params?.peer)}`;
   if (type === 'nip44.encrypt') return `NIP-44 encrypt → ${shortHex(params?.peer)}`;
@@ -268,6 +288,10 @@ export function buildAuditExtra(type: string, params: PromptParams | any): {
   riskTier?: KindRiskTier;
   peer?: string;
   profilePubKey?: string;
+  contentLength?: number;
+  ruleName?: string;
+  quotaExceeded?: boolean;
+  batch?: BatchEventAudit[];
 } {
   const extra: any = {};
 
@@ -276,6 +300,17 @@ export function buildAuditExtra(type: string, params: PromptParams | any): {
     extra.eventKind = kind;
     extra.eventKindName = getKindName(kind);
     extra.riskTier = getKindRisk(kind);
+    extra.contentLength = (params.event.content ?? '').length;
+  }
+
+  if (type === 'signEvents' && Array.isArray(params?.events)) {
+    extra.batch = params.events.map((e: any) => ({
+      eventKind: e?.kind,
+      eventKindName: getKindName(e?.kind),
+      riskTier: getKindRisk(e?.kind),
+      contentLength: (e?.content ?? '').length,
+    }));
+    extra.riskTier = getHighestKindRisk(params.events.map((e: any) => e?.kind));
   }
 
   if (params?.peer) {
@@ -0,0 +1,315 @@
+/**
+ * Typed RPC between extension pages, the content script and the background script
+ * Every message the background answers is declared once in RpcMethods with its
+ * params and result. RPC_SCHEMAS checks params at runtime before any handler
+ * runs, and every reply comes back in the same RpcResponse envelope.
+ */
+
+import browser from 'webextension-polyfill';
+
+import {
+  type AntiSpamHostState,
+  type AntiSpamLimits,
+  type AuditLogEntry,
+  type BackupRestoreMode,
+  type Capability,
+  type ContentScriptMessageResponse,
+  type PinMessageResponse,
+  type PromptParams,
+  type PromptResponse,
+  type RelayAuthGrants,
+  type RemoteSignerConfig,
+  type SecurityPreferences,
+  type SessionTokenStore,
+  type SignerBackup,
+  type SitePermissions,
+  ALL_CAPABILITIES,
+  ANTI_SPAM_LIMIT_KEYS,
+  DEFAULT_SECURITY_PREFERENCES,
+  NostrErrorCode,
+} from './types';
+import { NostrRequestError } from './common';
+
+//#region Methods ------------------------------------------------------------
+
+type NoParams = Record<string, never>;
+
+/** NIP-07 requests: answered through the permission system, results go back to the page as-is */
+type ProviderMethod<P extends keyof PromptParams = never> = {
+  params: Pick<PromptParams, P>;
+  result: ContentScriptMessageResponse;
+};
+
+/** A PIN window message about the PIN prompt with this ID (the oldest open one when omitted) */
+type PinMethod<P> = { params: P & { id?: string }; result: PinMessageResponse };
+
+export interface RpcMethods {
+  // NIP-07 provider
+  getPublicKey: ProviderMethod;
+  getRelays: ProviderMethod;
+  signEvent: ProviderMethod<'event'>;
+  signEvents: ProviderMethod<'events'>;
+  'nip04.encrypt': ProviderMethod<'peer' | 'plaintext'>;
+  'nip04.decrypt': ProviderMethod<'peer' | 'ciphertext'>;
+  'nip44.encrypt': ProviderMethod<'peer' | 'plaintext'>;
+  'nip44.decrypt': ProviderMethod<'peer' | 'ciphertext'>;
+  requestPermissions: ProviderMethod<'permissions'>;
+  getPermissions: ProviderMethod;
+  getInfo: ProviderMethod;
+
+  // Session tokens, scoped to the caller's origin
+  getSessionToken: {
+    params: { relayUrl: string };
+    result: { token: string; expiresAt: number; pubkey: string; clientId: string } | null;
+  };
+  setSessionToken: {
+    params: { relayUrl: string; token: string; expiresAt: number; pubkey: string; clientId?: string };
+    result: void;
+  };
+  removeSessionToken: { params: { relayUrl: string }; result: void };
+  getClientId: { params: NoParams; result: { clientId: string } };
+  getSessionTokens: { params: NoParams; result: SessionTokenStore };
+
+  // Activity log
+  getActivityLog: { params: NoParams; result: { entries: AuditLogEntry[]; suppressedCount: number } };
+  getActivityLogByHost: { params: { host: string }; result: { entries: AuditLogEntry[] } };
+  clearActivityLog: { params: NoParams; result: void };
+  clearSuppressedCount: { params: NoParams; result: void };
+
+  // Site permissions
+  getSitePermissions: { params: NoParams; result: { permissions: SitePermissions } };
+  revokeGrant: { params: { host: string; capability: Capability; profilePubKey: string }; result: void };
+  revokeAllGrants: { params: { host: string; profilePubKey?: string }; result: void };
+  removeSite: { params: { host: string }; result: void };
+  setSiteProfile: { params: { host: string; profilePubKey: string | null }; result: void };
+
+  // Anti-spam
+  getAntiSpamState: { params: NoParams; result: { hosts: AntiSpamHostState[] } };
+  resetAntiSpamState: { params: { host: string }; result: void };
+
+  // Security preferences
+  getSecurityPreferences: { params: NoParams; result: SecurityPreferences };
+  updateSecurityPreference: { params: { key: keyof SecurityPreferences; value: unknown }; result: void };
+
+  // Relay auth grants
+  getRelayAuthGrants: { params: NoParams; result: RelayAuthGrants };
+  removeRelayAuthGrant: { params: { relayUrl: string }; result: void };
+
+  // PIN
+  setupPin: PinMethod<{ pin: string }>;
+  verifyPin: PinMethod<{ pin: string }>;
+  disablePin: PinMethod<{ pin: string }>;
+  unlockWithKey: PinMethod<{ privateKey: string }>;
+  unlockWithPasskey: PinMethod<{ prfOutput: string }>;
+  openPinPrompt: { params: { mode: 'setup' | 'unlock' | 'disable' }; result: void };
+  getCachedPin: { params: NoParams; result: { pin: string | null } };
+  lockNow: { params: NoParams; result: void };
+
+  // Keys and profiles
+  encryptPrivateKey: { params: { privateKey: string }; result: { encryptedKey: string } };
+  exportNcryptsec: { params: { publicKey: string; password: string }; result: { ncryptsec: string } };
+  setProfilePin: { params: { publicKey: string; pin: string }; result: void };
+  clearProfilePin: { params: { publicKey: string; pin: string }; result: void };
+  registerPasskey: { params: { credentialId: string; prfSalt: string; prfOutput: string }; result: void };
+  removePasskey: { params: NoParams; result: void };
+  connectRemoteSigner: { params: { bunkerUri: string }; result: { pubKey: string; remoteSigner: RemoteSignerConfig } };
+
+  // Backup
+  restoreBackup: { params: { backup: SignerBackup; mode: BackupRestoreMode }; result: void };
+
+  // Permission prompt decisions
+  promptResponse: { params: PromptResponse; result: void };
+}
+
+export type RpcMethod = keyof RpcMethods;
+export type RpcParams<M extends RpcMethod> = RpcMethods[M]['params'];
+export type RpcResult<M extends RpcMethod> = RpcMethods[M]['result'];
+
+/** What travels over runtime messaging */
+export type RpcRequest<M extends RpcMethod = RpcMethod> = { type: M; params: RpcParams<M> };
+
+/** Every reply: the handler's result, or why there is none */
+export type RpcResponse<M extends RpcMethod = RpcMethod> =
+  | { ok: true; result: RpcResult<M> }
+  | { ok: false; error: { message: string; code?: NostrErrorCode } };
+
+//#endregion Methods ---------------------------------------------------------
+
+//#region Validation ---------------------------------------------------------
+
+/** Checks one field of a payload */
+type FieldCheck = (value: unknown) => boolean;
+
+/** One check per field — fields not listed are ignored */
+type Schema<P> = { [K in keyof Required<P>]: FieldCheck };
+
+const isString: FieldCheck = value => typeof value === 'string';
+const isNonEmptyString: FieldCheck = value => typeof value === 'string' && value.length > 0;
+const isNumber: FieldCheck = value => typeof value === 'number' && Number.isFinite(value);
+const isObject: FieldCheck = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isArray: FieldCheck = value => Array.isArray(value);
+const isPlainObject: FieldCheck = value => {
+  if (!isObject(value)) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+const isInteger: FieldCheck = value => Number.isSafeInteger(value) && (value as number) >= 0;
+const isArrayOf = (check: FieldCheck): FieldCheck => value => Array.isArray(value) && value.every(check);
+const isCapability: FieldCheck = value => ALL_CAPABILITIES.includes(value as Capability);
+const optional = (check: FieldCheck): FieldCheck => value => value === undefined || value === null || check(value);
+const oneOf = (...values: unknown[]): FieldCheck => value => values.includes(value);
+const anything: FieldCheck = () => true;
+
+const PIN_ID = { id: optional(isString) };
+
+/** An event as a web app hands it to signEvent: the fields that get signed must all be there */
+const isUnsignedEvent: FieldCheck = value => {
+  if (!isObject(value)) return false;
+  const event = value as Record<string, unknown>;
+  return (
+    isInteger(event.kind) &&
+    (event.kind as number) <= 65535 &&
+    isString(event.content) &&
+    isArrayOf(isArrayOf(isString))(event.tags) &&
+    isInteger(event.created_at)
+  );
+};
+
+/** Per-host anti-spam limits: a plain object of hosts, each a plain object of known numeric limits */
+const isAntiSpamOverrides: FieldCheck = value =>
+  isPlainObject(value) &&
+  Object.values(value as object).every(
+    limits =>
+      isPlainObject(limits) &&
+      Object.entries(limits).every(
+        ([key, limit]) => ANTI_SPAM_LIMIT_KEYS.includes(key as keyof AntiSpamLimits) && isNumber(limit)
+      )
+  );
+
+/** Methods whose malformed params are a malformed event, answered with INVALID_EVENT */
+const EVENT_METHODS: RpcMethod[] = ['signEvent', 'signEvents'];
+
+export const RPC_SCHEMAS: { [M in RpcMethod]: Schema<RpcParams<M>> } = {
+  getPublicKey: {},
+  getRelays: {},
+  signEvent: { event: isUnsignedEvent },
+  signEvents: { events: isArrayOf(isUnsignedEvent) },
+  'nip04.encrypt': { peer: isNonEmptyString, plaintext: isString },
+  'nip04.decrypt': { peer: isNonEmptyString, ciphertext: isString },
+  'nip44.encrypt': { peer: isNonEmptyString, plaintext: isString },
+  'nip44.decrypt': { peer: isNonEmptyString, ciphertext: isString },
+  requestPermissions: { permissions: isObject },
+  getPermissions: {},
+  getInfo: {},
+
+  getSessionToken: { relayUrl: isNonEmptyString },
+  setSessionToken: {
+    relayUrl: isNonEmptyString,
+    token: isNonEmptyString,
+    expiresAt: isNumber,
+    pubkey: isNonEmptyString,
+    clientId: optional(isString),
+  },
+  removeSessionToken: { relayUrl: isNonEmptyString },
+  getClientId: {},
+  getSessionTokens: {},
+
+  getActivityLog: {},
+  getActivityLogByHost: { host: isString },
+  clearActivityLog: {},
+  clearSuppressedCount: {},
+
+  getSitePermissions: {},
+  revokeGrant: { host: isNonEmptyString, capability: isCapability, profilePubKey: isNonEmptyString },
+  revokeAllGrants: { host: isNonEmptyString, profilePubKey: optional(isNonEmptyString) },
+  removeSite: { host: isNonEmptyString },
+  setSiteProfile: { host: isNonEmptyString, profilePubKey: optional(isNonEmptyString) },
+
+  getAntiSpamState: {},
+  resetAntiSpamState: { host: isNonEmptyString },
+
+  getSecurityPreferences: {},
+  updateSecurityPreference: { key: oneOf(...Object.keys(DEFAULT_SECURITY_PREFERENCES)), value: anything },
+
+  getRelayAuthGrants: {},
+  removeRelayAuthGrant: { relayUrl: isNonEmptyString },
+
+  setupPin: { pin: isNonEmptyString, ...PIN_ID },
+  verifyPin: { pin: isNonEmptyString, ...PIN_ID },
+  disablePin: { pin: isNonEmptyString, ...PIN_ID },
+  unlockWithKey: { privateKey: isNonEmptyString, ...PIN_ID },
+  unlockWithPasskey: { prfOutput: isNonEmptyString, ...PIN_ID },
+  openPinPrompt: { mode: oneOf('setup', 'unlock', 'disable') },
+  getCachedPin: {},
+  lockNow: {},
+
+  encryptPrivateKey: { privateKey: isNonEmptyString },
+  exportNcryptsec: { publicKey: isNonEmptyString, password: isNonEmptyString },
+  setProfilePin: { publicKey: isNonEmptyString, pin: isNonEmptyString },
+  clearProfilePin: { publicKey: isNonEmptyString, pin: isNonEmptyString },
+  registerPasskey: { credentialId: isNonEmptyString, prfSalt: isNonEmptyString, prfOutput: isNonEmptyString },
+  removePasskey: {},
+  connectRemoteSigner: { bunkerUri: isNonEmptyString },
+
+  restoreBackup: { backup: isObject, mode: oneOf('merge', 'replace') },
+
+  promptResponse: { id: isNonEmptyString, decision: isObject, host: optional(isString) },
+};
+
+/**
+ * Checks whether a message type is a known RPC method
+ */
+export function isRpcMethod(type: unknown): type is RpcMethod {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(RPC_SCHEMAS, type);
+}
+
+/**
+ * Checks params against the method's schema
+ * @returns A description of the first problem, or null if the params are valid
+ */
+export function validateRpcParams(method: RpcMethod, params: unknown): string | null {
+  if (!isObject(params)) return 'params must be an object';
+  const record = params as Record<string, unknown>;
+  for (const [field, check] of Object.entries(RPC_SCHEMAS[method] as Record<string, FieldCheck>)) {
+    if (!check(record[field])) return `invalid or missing "${field}"`;
+  }
+  if (method === 'updateSecurityPreference') {
+    const key = record.key as keyof SecurityPreferences;
+    const valid =
+      key === 'antiSpamOverrides'
+        ? isAntiSpamOverrides(record.value)
+        : typeof record.value === typeof DEFAULT_SECURITY_PREFERENCES[key] &&
+          (typeof record.value !== 'number' || isNumber(record.value));
+    if (!valid) return `invalid value for "${key}"`;
+  }
+  return null;
+}
+
+/**
+ * The error code to answer params that failed validation with, if any
+ */
+export function getMalformedRpcCode(method: RpcMethod): NostrErrorCode | undefined {
+  return EVENT_METHODS.includes(method) ? NostrErrorCode.INVALID_EVENT : undefined;
+}
+
+//#endregion Validation ------------------------------------------------------
+
+//#region Client -------------------------------------------------------------
+
+/**
+ * Calls a background method from an extension page
+ * @throws Error with the background's message if the call failed
+ */
+export async function rpcCall<M extends RpcMethod>(method: M, params: RpcParams<M>): Promise<RpcResult<M>> {
+  const request: RpcRequest<M> = { type: method, params };
+  const response = (await browser.runtime.sendMessage(request)) as RpcResponse<M> | undefined;
+  if (!response) throw new Error(`No response to ${method}`);
+  if ('error' in response) {
+    throw response.error.code
+      ? new NostrRequestError(response.error.code, response.error.message)
+      : new Error(response.error.message);
+  }
+  return response.result;
+}
+
+//#endregion Client ----------------------------------------------------------
@@ -1,5 +1,5 @@
 import browser from 'webextension-polyfill';
-import { getPublicKey } from 'nostr-tools';
+import { getPublicKey, type Event } from 'nostr-tools';
 
 import {
   AuthorizationCondition,
@@ -19,6 +19,12 @@ import {
   type ClientIdStore,
   type RelayAuthGrant,
   type RelayAuthGrants,
+  type PolicyRule,
+  type PinAttemptState,
+  type PasskeyUnlock,
+  type SigningConstraints,
+  type SiteQuota,
+  type AntiSpamLimits,
   PermissionDuration,
   DEFAULT_SECURITY_PREFERENCES,
 } from './types';
@@ -26,9 +32,14 @@ import {
   convertHexToUint8Array,
   isPrivateKeyEncrypted,
   derivePublicKeyFromPrivateKey,
-  canDerivePublicKeyFromPrivateKey
+  canDerivePublicKeyFromPrivateKey,
+  normalizeRelayUrl,
+  isRelayUrlPattern,
+  matchRelayUrl,
+  matchesSigningConstraints,
+  isValidTagValuePattern
 } from './common';
-import { encryptPrivateKey, decryptPrivateKey } from './pinEncryption';
+import { type DerivedKeys, encryptPrivateKey, decryptPrivateKey, needsKdfUpgrade } from './pinEncryption';
 import { clearStringReference } from './memoryUtils';
 
 export async function readActivePrivateKey(): Promise<string> {
@@ -41,7 +52,7 @@ export async function updateActivePrivateKey(privateKey: string) {
   const pinEnabled = await isPinEnabled();
   if (pinEnabled && privateKey) {
     throw new Error(
-      'Cannot store plain-text private key when PIN protection is enabled. Use setEncryptedPrivateKey() instead.'
+      'Cannot store plain-text private key when PIN protection is enabled.'
     );
   }
 
@@ -97,6 +108,46 @@ export async function setPinCacheDuration(durationMs: number): Promise<void> {
   });
 }
 
+/**
+ * Gets the failed PIN attempt state — persisted so it survives restarts
+ */
+export async function readPinAttempts(): Promise<PinAttemptState> {
+  const data = await browser.storage.local.get(ConfigurationKeys.PIN_ATTEMPTS);
+  return (
+    (data[ConfigurationKeys.PIN_ATTEMPTS] as PinAttemptState) ?? { failures: 0, retryAt: null, lockedOut: false }
+  );
+}
+
+/**
+ * Sets the failed PIN attempt state
+ */
+export async function writePinAttempts(state: PinAttemptState): Promise<void> {
+  await browser.storage.local.set({
+    [ConfigurationKeys.PIN_ATTEMPTS]: state
+  });
+}
+
+/**
+ * Gets the passkey set up to unlock the shared PIN, if any
+ */
+export async function readPasskeyUnlock(): Promise<PasskeyUnlock | null> {
+  const data = await browser.storage.local.get(ConfigurationKeys.PASSKEY_UNLOCK);
+  return (data[ConfigurationKeys.PASSKEY_UNLOCK] as PasskeyUnlock) ?? null;
+}
+
+/**
+ * Stores the passkey that unlocks the shared PIN, or removes it when null
+ */
+export async function writePasskeyUnlock(passkey: PasskeyUnlock | null): Promise<void> {
+  if (!passkey) {
+    await browser.storage.local.remove(ConfigurationKeys.PASSKEY_UNLOCK);
+    return;
+  }
+  await browser.storage.local.set({
+    [ConfigurationKeys.PASSKEY_UNLOCK]: passkey
+  });
+}
+
 //#region Client ID Management >>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>
 
 /**
@@ -111,7 +162,7 @@ function generateClientId(): string {
 /**
  * Read the persisted client ID store.
  */
-async function readClientIds(): Promise<ClientIdStore> {
+export async function readClientIds(): Promise<ClientIdStore> {
   const data = await browser.storage.local.get(ConfigurationKeys.CLIENT_IDS);
   return (data[ConfigurationKeys.CLIENT_IDS] as ClientIdStore) ?? {};
 }
@@ -144,7 +195,7 @@ export async function getClientId(origin: string): Promise<string | null> {
 
 /** Composite key for origin-scoped token storage */
 function tokenKey(relayUrl: string, origin: string): string {
-  return `${relayUrl}|${origin}`;
+  return `${normalizeRelayUrl(relayUrl)}|${origin}`;
 }
 
 /**
@@ -184,7 +235,7 @@ export async function getSessionToken(relayUrl: string, origin: string): Promise
 export async function setSessionToken(entry: SessionTokenEntry): Promise<void> {
   const tokens = await readSessionTokens();
   const key = tokenKey(entry.relayUrl, entry.origin);
-  tokens[key] = entry;
+  tokens[key] = { ...entry, relayUrl: normalizeRelayUrl(entry.relayUrl) };
   await browser.storage.local.set({ [ConfigurationKeys.SESSION_TOKENS]: tokens });
 }
 
@@ -249,25 +300,38 @@ export async function readRelayAuthGrants(): Promise<RelayAuthGrants> {
 
 /**
  * Check if a relay URL has an active auth grant.
+ * An exact grant for the normalized URL wins over wildcard patterns.
  */
 export async function hasRelayAuthGrant(relayUrl: string): Promise<RelayAuthGrant | null> {
   const grants = await readRelayAuthGrants();
-  const grant = grants[relayUrl];
-  if (!grant) return null;
+  const key = normalizeRelayUrl(relayUrl);
+  const candidates = [
+    grants[key],
+    ...Object.values(grants).filter(g => isRelayUrlPattern(g.relayUrl) && matchRelayUrl(g.relayUrl, key))
+  ].filter(Boolean);
 
   const now = Math.floor(Date.now() / 1000);
-  if (grant.expiresAt !== null && grant.expiresAt <= now) {
-    // Expired — clean it up
-    delete grants[relayUrl];
-    await browser.storage.local.set({ [ConfigurationKeys.RELAY_AUTH_GRANTS]: grants });
-    return null;
+  let expired = false;
+  let activeGrant: RelayAuthGrant | null = null;
+  for (const grant of candidates) {
+    if (grant.expiresAt !== null && grant.expiresAt <= now) {
+      // Expired — clean it up
+      delete grants[grant.relayUrl];
+      expired = true;
+    } else if (!activeGrant) {
+      activeGrant = grant;
+    }
   }
 
-  return grant;
+  if (expired) {
+    await browser.storage.local.set({ [ConfigurationKeys.RELAY_AUTH_GRANTS]: grants });
+  }
+  return activeGrant;
 }
 
 /**
  * Add a relay auth grant (auto-approve kind:22242 for this relay).
+ * @param relayUrl - The relay URL, or a wildcard pattern such as "wss://*.example.com"
  */
 export async function addRelayAuthGrant(
   relayUrl: string,
@@ -275,6 +339,7 @@ export async function addRelayAuthGrant(
 ): Promise<void> {
   const grants = await readRelayAuthGrants();
   const now = Math.floor(Date.now() / 1000);
+  relayUrl = normalizeRelayUrl(relayUrl);
 
   let expiresAt: number | null = null;
   switch (duration) {
@@ -298,6 +363,7 @@ export async function addRelayAuthGrant(
 export async function removeRelayAuthGrant(relayUrl: string): Promise<void> {
   const grants = await readRelayAuthGrants();
   delete grants[relayUrl];
+  delete grants[normalizeRelayUrl(relayUrl)];
   await browser.storage.local.set({ [ConfigurationKeys.RELAY_AUTH_GRANTS]: grants });
 }
 
@@ -338,98 +404,53 @@ export async function purgeExpiredRelayAuthGrants(): Promise<number> {
 //#endregion Relay Auth Grants <<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<
 
 /**
- * Gets the encrypted private key from storage
- */
-export async function getEncryptedPrivateKey(): Promise<string | null> {
-  const data = await browser.storage.local.get(ConfigurationKeys.ENCRYPTED_PRIVATE_KEY);
-  return (data[ConfigurationKeys.ENCRYPTED_PRIVATE_KEY] as string) ?? null;
-}
-
-/**
- * Sets the encrypted private key in storage
+ * Gets an encrypted private key to check a PIN against
+ * @param publicKey - A profile with its own PIN; omit for the shared PIN, which is checked
+ *   against the active profile's key, or any profile encrypted with the shared PIN
  */
-export async function setEncryptedPrivateKey(encryptedKey: string): Promise<void> {
-  await browser.storage.local.set({
-    [ConfigurationKeys.ENCRYPTED_PRIVATE_KEY]: encryptedKey
-  });
-}
-
-/**
- * Enables PIN protection by encrypting all private keys
- * @param pin - The PIN to use for encryption
- */
-export async function enablePinProtection(pin: string): Promise<void> {
-  // Get all profiles
+export async function getEncryptedPrivateKey(publicKey?: string): Promise<string | null> {
   const profiles = await readProfiles();
-  const activePrivateKey = await readActivePrivateKey();
-
-  if (!activePrivateKey) {
-    throw new Error('No active private key to encrypt');
+  if (publicKey) {
+    const key = profiles[publicKey]?.privateKey;
+    return key && isPrivateKeyEncrypted(key) ? key : null;
   }
 
-  // Get active public key before encrypting (should already be stored, but ensure it)
-  const activePublicKey = derivePublicKeyFromPrivateKey(activePrivateKey);
-  await setActivePublicKey(activePublicKey);
-
-  // Encrypt active private key
-  const encryptedActiveKey = await encryptPrivateKey(pin, activePrivateKey);
-  await setEncryptedPrivateKey(encryptedActiveKey);
-
-  // Encrypt all profile private keys
-  for (const pubKey in profiles) {
+  const sharedPinKeys = (pubKey: string) => {
     const profile = profiles[pubKey];
-    if (profile.privateKey) {
-      profile.privateKey = await encryptPrivateKey(pin, profile.privateKey);
-    }
-  }
-  await updateProfiles(profiles);
-
-  // Clear plain-text private key
-  await browser.storage.local.remove(ConfigurationKeys.PRIVATE_KEY);
-
-  // Enable PIN protection
-  await setPinEnabled(true);
+    return !profile.ownPin && !!profile.privateKey && isPrivateKeyEncrypted(profile.privateKey);
+  };
+  const activePublicKey = await getActivePublicKey();
+  const pubKey = activePublicKey && profiles[activePublicKey] && sharedPinKeys(activePublicKey)
+    ? activePublicKey
+    : Object.keys(profiles).find(sharedPinKeys);
+  return pubKey ? profiles[pubKey].privateKey : null;
 }
 
 /**
- * Enables PIN protection with an already encrypted key (used by background script)
- * @param pin - The PIN used for encryption
- * @param encryptedKey - The already encrypted private key
+ * Enables PIN protection by encrypting every profile's private key.
+ * All keys are encrypted before anything is written, then stored in a single write.
+ * Profiles with their own PIN are left as they are.
+ * @param pin - The PIN to use for encryption
  */
-export async function enablePinProtectionWithEncryptedKey(
-  pin: string,
-  encryptedKey: string
-): Promise<void> {
-  // Get all profiles
+export async function enablePinProtection(pin: string): Promise<void> {
   const profiles = await readProfiles();
-  const currentPrivateKey = await readActivePrivateKey();
-
-  if (!currentPrivateKey) {
-    throw new Error('No active private key found');
+  const toEncrypt = Object.values(profiles).filter(
+    profile => profile.privateKey && !profile.ownPin && !isPrivateKeyEncrypted(profile.privateKey)
+  );
+  if (toEncrypt.length === 0) {
+    throw new Error('No private key to encrypt');
   }
 
-  // Get active public key before encrypting (should already be stored, but ensure it)
-  const activePublicKey = derivePublicKeyFromPrivateKey(currentPrivateKey);
-  await setActivePublicKey(activePublicKey);
-
-  // Store encrypted key
-  await setEncryptedPrivateKey(encryptedKey);
-
-  // Encrypt all profile private keys
-  for (const pubKey in profiles) {
-    const profile = profiles[pubKey];
-    if (profile.privateKey && !isPrivateKeyEncrypted(profile.privateKey)) {
-      // Encrypt profile private key
-      profile.privateKey = await encryptPrivateKey(pin, profile.privateKey);
-    }
+  for (const profile of toEncrypt) {
+    profile.privateKey = await encryptPrivateKey(pin, profile.privateKey);
   }
-  await updateProfiles(profiles);
 
-  // Clear plain-text private key
-  await browser.storage.local.remove(ConfigurationKeys.PRIVATE_KEY);
-
-  // Enable PIN protection
-  await setPinEnabled(true);
+  await browser.storage.local.set({
+    [ConfigurationKeys.PROFILES]: profiles,
+    [ConfigurationKeys.PIN_ENABLED]: true
+  });
+  // Clear plain-text private key, and any passkey made for a previous PIN
+  await browser.storage.local.remove([ConfigurationKeys.PRIVATE_KEY, ConfigurationKeys.PASSKEY_UNLOCK]);
 }
 
 /**
@@ -457,85 +478,162 @@ export async function removeActivePublicKey(): Promise<void> {
 }
 
 /**
- * Disables PIN protection by decrypting all private keys
+ * Disables PIN protection by decrypting every profile's private key.
+ * All keys are decrypted before anything is written, then stored in a single write.
+ * Profiles with their own PIN stay encrypted.
  * @param pin - The PIN to use for decryption
  */
 export async function disablePinProtection(pin: string): Promise<void> {
-  const encryptedKey = await getEncryptedPrivateKey();
-  if (!encryptedKey) {
-    throw new Error('No encrypted private key found');
-  }
-
-  // Decrypt active private key
-  let decryptedActiveKey = await decryptPrivateKey(pin, encryptedKey);
+  const profiles = await readProfiles();
+  const activePublicKey = await getActivePublicKey();
 
-  try {
-    // Decrypt all profile private keys
-    const profiles = await readProfiles();
-    for (const pubKey in profiles) {
-      const profile = profiles[pubKey];
-      if (profile.privateKey) {
-        try {
-          profile.privateKey = await decryptPrivateKey(pin, profile.privateKey);
-        } catch (error) {
-          console.error(`Failed to decrypt profile ${pubKey}:`, error);
-          throw new Error(`Failed to decrypt profile private key: ${error.message}`);
-        }
+  for (const pubKey in profiles) {
+    const profile = profiles[pubKey];
+    if (profile.privateKey && !profile.ownPin && isPrivateKeyEncrypted(profile.privateKey)) {
+      try {
+        profile.privateKey = await decryptPrivateKey(pin, profile.privateKey);
+      } catch (error) {
+        console.error(`Failed to decrypt profile ${pubKey}:`, error);
+        throw new Error(`Failed to decrypt profile private key: ${error.message}`);
       }
     }
-    await updateProfiles(profiles);
-
-    // Clear encrypted private key
-    await browser.storage.local.remove(ConfigurationKeys.ENCRYPTED_PRIVATE_KEY);
+  }
 
-    // Disable PIN protection BEFORE updating private key to allow plain-text storage
-    await setPinEnabled(false);
+  // The active plain-text key is only kept for profiles that hold one
+  const activeProfile = activePublicKey ? profiles[activePublicKey] : undefined;
+  const activePrivateKey =
+    activeProfile && !activeProfile.ownPin && !activeProfile.remoteSigner ? activeProfile.privateKey : '';
 
-    // Update active private key (this will also update active public key)
-    // This must happen after disabling PIN protection to avoid the error
-    await updateActivePrivateKey(decryptedActiveKey);
-  } finally {
-    // Clear decrypted active key reference from memory
-    // Note: Strings are immutable, but we null the reference to minimize exposure
-    decryptedActiveKey = clearStringReference(decryptedActiveKey) as any;
-  }
+  await browser.storage.local.set({
+    [ConfigurationKeys.PROFILES]: profiles,
+    [ConfigurationKeys.PIN_ENABLED]: false,
+    [ConfigurationKeys.PRIVATE_KEY]: activePrivateKey
+  });
+  // A passkey only unlocks the PIN
+  await browser.storage.local.remove(ConfigurationKeys.PASSKEY_UNLOCK);
 }
 
 /**
  * Gets the decrypted private key for a specific profile
- * This is used internally when PIN protection is enabled
- * @param pin - The PIN to decrypt with
+ * @param pin - The PIN to decrypt with: the shared PIN, or the profile's own PIN
  * @param publicKey - The public key of the profile (optional, defaults to active)
+ * @param derivedKeys - Keys derived from the PIN while it is cached, to skip deriving again
  */
 export async function getDecryptedProfilePrivateKey(
   pin: string,
-  publicKey?: string
+  publicKey?: string,
+  derivedKeys?: DerivedKeys
 ): Promise<string> {
-  const pinEnabled = await isPinEnabled();
-  if (!pinEnabled) {
-    // PIN not enabled, return plain key
-    if (publicKey) {
-      const profile = await getProfile(publicKey);
-      return profile.privateKey;
-    } else {
-      return await readActivePrivateKey();
-    }
+  const profilePublicKey = publicKey ?? (await getActivePublicKey());
+  const profile = profilePublicKey ? await getProfile(profilePublicKey) : undefined;
+  if (!profile?.privateKey) {
+    throw new Error('Profile private key not found');
   }
 
-  // PIN enabled, decrypt
-  if (publicKey) {
-    const profile = await getProfile(publicKey);
-    if (!profile.privateKey) {
-      throw new Error('Profile private key not found');
+  if (!isPrivateKeyEncrypted(profile.privateKey)) {
+    // Neither PIN protection nor an own PIN — return plain key
+    return profile.privateKey;
+  }
+  return await decryptPrivateKey(pin, profile.privateKey, derivedKeys);
+}
+
+/**
+ * Re-encrypts PIN-protected keys that were derived with outdated KDF parameters
+ * @param pin - The verified PIN
+ * @param ownPinPublicKey - Upgrade only this profile, whose own PIN was verified;
+ *   omit to upgrade every profile using the shared PIN
+ * @returns true if any key was re-encrypted
+ */
+export async function upgradePinEncryption(pin: string, ownPinPublicKey?: string): Promise<boolean> {
+  const profiles = await readProfiles();
+  let upgraded = false;
+
+  for (const pubKey in profiles) {
+    const profile = profiles[pubKey];
+    const usesPin = ownPinPublicKey ? pubKey === ownPinPublicKey : !profile.ownPin;
+    if (
+      usesPin &&
+      profile.privateKey &&
+      isPrivateKeyEncrypted(profile.privateKey) &&
+      needsKdfUpgrade(profile.privateKey)
+    ) {
+      let decrypted = await decryptPrivateKey(pin, profile.privateKey);
+      profile.privateKey = await encryptPrivateKey(pin, decrypted);
+      decrypted = clearStringReference(decrypted) as any;
+      upgraded = true;
     }
-    return await decryptPrivateKey(pin, profile.privateKey);
+  }
+  if (upgraded) await updateProfiles(profiles);
+
+  return upgraded;
+}
+
+/**
+ * Replaces a profile's stored private key, e.g. when giving it its own PIN or removing it
+ * @param publicKey - The profile to change
+ * @param privateKey - The key as it should be stored: encrypted, or plain text when allowed
+ * @param ownPin - Whether the key is encrypted with the profile's own PIN or passphrase
+ */
+export async function setProfilePrivateKey(
+  publicKey: string,
+  privateKey: string,
+  ownPin: boolean
+): Promise<void> {
+  const profiles = await readProfiles();
+  const profile = profiles[publicKey];
+  if (!profile) {
+    throw new Error(`Profile not found for public key: ${publicKey}`);
+  }
+  if (!isPrivateKeyEncrypted(privateKey) && (ownPin || (await isPinEnabled()))) {
+    throw new Error('Cannot store plain-text private key for a PIN-protected profile');
+  }
+
+  profile.privateKey = privateKey;
+  if (ownPin) {
+    profile.ownPin = true;
   } else {
-    const encryptedKey = await getEncryptedPrivateKey();
-    if (!encryptedKey) {
-      throw new Error('Encrypted private key not found');
+    delete profile.ownPin;
+  }
+  await browser.storage.local.set({
+    [ConfigurationKeys.PROFILES]: profiles
+  });
+
+  // Refresh the active key material
+  if ((await getActivePublicKey()) === publicKey) {
+    await activateProfile(publicKey);
+  }
+}
+
+/**
+ * Removes the single encrypted active key kept by older versions — every profile's key
+ * is now encrypted at rest in the profile itself — and any plain-text key left behind
+ * while PIN protection is on.
+ */
+export async function migrateEncryptedPrivateKey(): Promise<boolean> {
+  const data = await browser.storage.local.get([
+    ConfigurationKeys.ENCRYPTED_PRIVATE_KEY,
+    ConfigurationKeys.PRIVATE_KEY
+  ]);
+  const legacyKey = data[ConfigurationKeys.ENCRYPTED_PRIVATE_KEY] as string | undefined;
+  const pinEnabled = await isPinEnabled();
+  if (!legacyKey && !(pinEnabled && data[ConfigurationKeys.PRIVATE_KEY])) return false;
+
+  // Older versions could hold the only encrypted copy of the active key
+  const activePublicKey = await getActivePublicKey();
+  if (legacyKey && pinEnabled && activePublicKey) {
+    const profiles = await readProfiles();
+    const profile = profiles[activePublicKey];
+    if (profile && !profile.remoteSigner && !isPrivateKeyEncrypted(profile.privateKey)) {
+      profile.privateKey = legacyKey;
+      await browser.storage.local.set({ [ConfigurationKeys.PROFILES]: profiles });
     }
-    return await decryptPrivateKey(pin, encryptedKey);
   }
+
+  const toRemove: string[] = [ConfigurationKeys.ENCRYPTED_PRIVATE_KEY];
+  if (pinEnabled) toRemove.push(ConfigurationKeys.PRIVATE_KEY);
+  await browser.storage.local.remove(toRemove);
+  console.log('[Migration] Removed legacy active key storage');
+  return true;
 }
 
 //#endregion PIN Protection <<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<
@@ -554,11 +652,26 @@ export async function updateRelays(
       console.warn(`There is no profile with the key '${profilePublicKey}'`);
       return;
     }
-    profile.relays = newRelays;
+    profile.relays = normalizeRelaysConfig(newRelays);
     return updateProfile(profile, profilePublicKey);
   }
 }
 
+/**
+ * Re-keys a relay list by normalized URL. Duplicates are merged, keeping the widest policy.
+ */
+function normalizeRelaysConfig(relays: RelaysConfig): RelaysConfig {
+  const normalized: RelaysConfig = {};
+  for (const [url, policy] of Object.entries(relays)) {
+    const key = normalizeRelayUrl(url);
+    const existing = normalized[key];
+    normalized[key] = existing
+      ? { read: existing.read || policy.read, write: existing.write || policy.write }
+      : policy;
+  }
+  return normalized;
+}
+
 export async function readActivePermissions(): Promise<PermissionConfig> {
   const activeProfile = await getActiveProfile();
 
@@ -686,23 +799,7 @@ export async function updateProfiles(profiles: ProfilesConfig): Promise<Profiles
   // if there's only one profile, then set it as the active one
   const activePrivateKey = await readActivePrivateKey();
   if (!activePrivateKey && Object.keys(profiles).length == 1) {
-    const profilePubKey = Object.keys(profiles)[0];
-    const profile = profiles[profilePubKey];
-    const pinEnabled = await isPinEnabled();
-
-    // Always store active public key first
-    await setActivePublicKey(profilePubKey);
-
-    // Then update private key based on PIN status
-    if (pinEnabled) {
-      // When PIN enabled, store encrypted private key if available
-      if (profile.privateKey && isPrivateKeyEncrypted(profile.privateKey)) {
-        await setEncryptedPrivateKey(profile.privateKey);
-      }
-    } else {
-      // When PIN disabled, store private key
-      await updateActivePrivateKey(profile.privateKey);
-    }
+    await activateProfile(Object.keys(profiles)[0]);
   }
 
   return profiles;
@@ -746,21 +843,7 @@ export async function addProfile(
   // if it's the first profile to be added, then set it as the active one
   const activePrivateKey = await readActivePrivateKey();
   if (!activePrivateKey && Object.keys(profiles).length == 1) {
-    const profilePubKey = Object.keys(profiles)[0];
-
-    // Always store active public key first
-    await setActivePublicKey(profilePubKey);
-
-    // Then update private key based on PIN status
-    if (pinEnabled) {
-      // If PIN enabled, store encrypted private key if available
-      if (profile.privateKey && isPrivateKeyEncrypted(profile.privateKey)) {
-        await setEncryptedPrivateKey(profile.privateKey);
-      }
-    } else {
-      // If PIN disabled, store private key (which also ensures public key is stored)
-      await updateActivePrivateKey(profile.privateKey);
-    }
+    await activateProfile(Object.keys(profiles)[0]);
   }
 
   return profiles;
@@ -849,6 +932,7 @@ export async function deleteProfile(profilePublicKey: string): Promise<ProfilesC
   await browser.storage.local.set({
     [ConfigurationKeys.PROFILES]: profiles
   });
+  await forgetProfileOnSites(profilePublicKey);
 
   // now change the active, if it was removed
   if (isActiveProfile) {
@@ -856,31 +940,11 @@ export async function deleteProfile(profilePublicKey: string): Promise<ProfilesC
 
     if (Object.keys(profiles).length > 0) {
       // Set the first remaining profile as active
-      const newActivePublicKey = Object.keys(profiles)[0];
-      const newActiveProfile = profiles[newActivePublicKey];
-
-      // Always update active public key first
-      await setActivePublicKey(newActivePublicKey);
-
-      // Then update private key based on PIN status
-      if (pinEnabled) {
-        // When PIN enabled, update encrypted private key
-        if (newActiveProfile.privateKey && isPrivateKeyEncrypted(newActiveProfile.privateKey)) {
-          await setEncryptedPrivateKey(newActiveProfile.privateKey);
-        } else {
-          // No encrypted key in profile, clear encrypted key
-          await browser.storage.local.remove(ConfigurationKeys.ENCRYPTED_PRIVATE_KEY);
-        }
-      } else {
-        // When PIN disabled, update active private key
-        await updateActivePrivateKey(newActiveProfile.privateKey || '');
-      }
+      await activateProfile(Object.keys(profiles)[0]);
     } else {
       // No profiles left, clear active profile
       await removeActivePublicKey();
-      if (pinEnabled) {
-        await browser.storage.local.remove(ConfigurationKeys.ENCRYPTED_PRIVATE_KEY);
-      } else {
+      if (!pinEnabled) {
         await updateActivePrivateKey('');
       }
     }
@@ -888,6 +952,30 @@ export async function deleteProfile(profilePublicKey: string): Promise<ProfilesC
 
   return profiles;
 }
+/**
+ * Makes a profile the active one and updates the active key material to match.
+ * Profiles backed by a remote signer or protected by a PIN have no plain-text key, so any stored one is cleared.
+ * @param publicKey - The public key of the profile to activate
+ */
+export async function activateProfile(publicKey: string): Promise<void> {
+  const profiles = await readProfiles();
+  const profile = profiles[publicKey];
+  if (!profile) {
+    throw new Error(`Profile not found for public key: ${publicKey}`);
+  }
+
+  // Always store active public key first
+  await setActivePublicKey(publicKey);
+
+  // Then update the plain-text active key. Encrypted keys stay in their profile and are
+  // decrypted from there, so nothing is copied when the profile has no plain-text key.
+  if (profile.remoteSigner || profile.ownPin || (await isPinEnabled())) {
+    await browser.storage.local.remove(ConfigurationKeys.PRIVATE_KEY);
+  } else {
+    // When PIN disabled, update active private key
+    await updateActivePrivateKey(profile.privateKey || '');
+  }
+}
 export async function getActiveProfile(): Promise<ProfileConfig> {
   // Always use stored active public key for consistent behavior
   let publicKey = await getActivePublicKey();
@@ -1039,29 +1127,72 @@ export async function getSitePermission(host: string): Promise<SitePermission |
 }
 
 /**
- * Check if a host has an active (non-expired) grant for a capability.
- * For signEvent grants with allowedKinds, also checks the event kind.
+ * Get the profile a host is bound to, if that profile still exists.
+ */
+export async function getSiteProfile(host: string): Promise<string | null> {
+  const site = await getSitePermission(host);
+  if (!site?.boundProfilePubKey) return null;
+  const profiles = await readProfiles();
+  return site.boundProfilePubKey in profiles ? site.boundProfilePubKey : null;
+}
+
+/**
+ * Bind a known host to a profile, or unbind it.
+ * @param profilePubKey - The profile to always use for this host, or null to follow the active profile
+ */
+export async function setSiteProfile(host: string, profilePubKey: string | null): Promise<void> {
+  const perms = await readSitePermissions();
+  const site = perms[host];
+  if (!site) return;
+
+  if (profilePubKey) {
+    site.boundProfilePubKey = profilePubKey;
+  } else {
+    delete site.boundProfilePubKey;
+  }
+  await writeSitePermissions(perms);
+}
+
+/**
+ * Get the public key of the profile requests from a host use: its bound profile, else the active one.
+ */
+export async function getProfilePublicKeyForHost(host: string): Promise<string | null> {
+  return (await getSiteProfile(host)) ?? (await getActivePublicKey());
+}
+
+/**
+ * Check if a host has an active (non-expired) grant for a capability, given to the profile it uses.
+ * For signEvent grants with allowedKinds or constraints, also checks the event.
  */
 export async function hasActiveGrant(
   host: string,
   capability: Capability,
-  eventKind?: number
+  event?: Event
 ): Promise<CapabilityGrant | null> {
   const perms = await readSitePermissions();
   const site = perms[host];
   if (!site) return null;
 
+  const profilePubKey = await getProfilePublicKeyForHost(host);
+  if (!profilePubKey) return null;
+
   const now = Math.floor(Date.now() / 1000);
 
   for (const grant of site.grants) {
     if (grant.capability !== capability) continue;
+    if (grant.profilePubKey !== profilePubKey) continue;
 
     // Check expiry
     if (grant.expires_at !== null && grant.expires_at <= now) continue;
 
     // For signEvent: check kind allowlist
     if (capability === 'signEvent' && grant.allowedKinds && grant.allowedKinds.length > 0) {
-      if (eventKind !== undefined && !grant.allowedKinds.includes(eventKind)) continue;
+      if (event && !grant.allowedKinds.includes(event.kind)) continue;
+    }
+
+    // For signEvent: check content constraints — an event that fails them needs a prompt
+    if (capability === 'signEvent' && grant.constraints) {
+      if (!event || !matchesSigningConstraints(grant.constraints, event, now)) continue;
     }
 
     return grant;
@@ -1071,13 +1202,15 @@ export async function hasActiveGrant(
 }
 
 /**
- * Add a capability grant for a host.
+ * Add a capability grant for a host, scoped to one profile.
  */
 export async function addGrant(
   host: string,
   capability: Capability,
   duration: PermissionDuration,
-  allowedKinds?: number[]
+  profilePubKey: string,
+  allowedKinds?: number[],
+  constraints?: SigningConstraints
 ): Promise<void> {
   const perms = await readSitePermissions();
   const now = Math.floor(Date.now() / 1000);
@@ -1106,56 +1239,111 @@ export async function addGrant(
     case 'forever': expires_at = null; break;
   }
 
+  // Constraints set in Options survive the grant being renewed from a prompt
+  const existing = perms[host].grants.find(g => g.capability === capability && g.profilePubKey === profilePubKey);
+
   const grant: CapabilityGrant = {
     capability,
+    profilePubKey,
     granted_at: now,
     expires_at,
     duration,
     allowedKinds,
+    constraints: constraints ?? existing?.constraints,
   };
 
-  // Remove any existing grant for same capability (replace)
-  perms[host].grants = perms[host].grants.filter(g => g.capability !== capability);
+  // Remove any existing grant for same capability and profile (replace)
+  perms[host].grants = perms[host].grants.filter(
+    g => !(g.capability === capability && g.profilePubKey === profilePubKey)
+  );
   perms[host].grants.push(grant);
 
   await writeSitePermissions(perms);
 }
 
 /**
- * Consume a one-time grant (remove it after use).
+ * Set or clear the content constraints of a profile's signEvent grant on a host.
+ * @throws Error if a tag value pattern is not a valid regular expression
+ */
+export async function setGrantConstraints(
+  host: string,
+  profilePubKey: string,
+  constraints: SigningConstraints | undefined
+): Promise<void> {
+  for (const [name, pattern] of Object.entries(constraints?.tagValuePatterns || {})) {
+    if (!isValidTagValuePattern(pattern)) {
+      throw new Error(`[Ribbit Signer] Invalid pattern for tag "${name}"`);
+    }
+  }
+  const perms = await readSitePermissions();
+  const grant = perms[host]?.grants.find(g => g.capability === 'signEvent' && g.profilePubKey === profilePubKey);
+  if (!grant) return;
+  if (constraints) {
+    grant.constraints = constraints;
+  } else {
+    delete grant.constraints;
+  }
+  await writeSitePermissions(perms);
+}
+
+/**
+ * Consume a one-time grant of the profile the host uses (remove it after use).
  */
 export async function consumeOnceGrant(host: string, capability: Capability): Promise<void> {
   const perms = await readSitePermissions();
   const site = perms[host];
   if (!site) return;
 
+  const profilePubKey = await getProfilePublicKeyForHost(host);
   site.grants = site.grants.filter(
-    g => !(g.capability === capability && g.duration === 'once')
+    g => !(g.capability === capability && g.duration === 'once' && g.profilePubKey === profilePubKey)
   );
   await writeSitePermissions(perms);
 }
 
 /**
- * Revoke a specific capability grant for a host.
+ * Revoke a specific capability grant for a host and profile.
  */
-export async function revokeGrant(host: string, capability: Capability): Promise<void> {
+export async function revokeGrant(
+  host: string,
+  capability: Capability,
+  profilePubKey: string
+): Promise<void> {
   const perms = await readSitePermissions();
   const site = perms[host];
   if (!site) return;
 
-  site.grants = site.grants.filter(g => g.capability !== capability);
+  site.grants = site.grants.filter(
+    g => !(g.capability === capability && g.profilePubKey === profilePubKey)
+  );
   await writeSitePermissions(perms);
 }
 
 /**
  * Revoke ALL grants for a host.
+ * @param profilePubKey - Only revoke the grants of this profile. Omit to revoke for every profile.
  */
-export async function revokeAllGrants(host: string): Promise<void> {
+export async function revokeAllGrants(host: string, profilePubKey?: string): Promise<void> {
   const perms = await readSitePermissions();
   const site = perms[host];
   if (!site) return;
 
-  site.grants = [];
+  site.grants = profilePubKey ? site.grants.filter(g => g.profilePubKey !== profilePubKey) : [];
+  await writeSitePermissions(perms);
+}
+
+/**
+ * Revoke every grant given to a profile and unbind the hosts bound to it, on all sites
+ * (called when the profile is deleted).
+ */
+export async function forgetProfileOnSites(profilePubKey: string): Promise<void> {
+  const perms = await readSitePermissions();
+  for (const host in perms) {
+    perms[host].grants = perms[host].grants.filter(g => g.profilePubKey !== profilePubKey);
+    if (perms[host].boundProfilePubKey === profilePubKey) {
+      delete perms[host].boundProfilePubKey;
+    }
+  }
   await writeSitePermissions(perms);
 }
 
@@ -1202,17 +1390,102 @@ export async function clearSessionGrants(): Promise<void> {
 }
 
 /**
- * Get the list of active (non-expired) capabilities for a host.
+ * Get the list of active (non-expired) capabilities a host holds for a profile.
+ */
+export async function getActiveCapabilities(
+  host: string,
+  profilePubKey: string
+): Promise<Capability[]> {
+  return (await getActiveGrants(host, profilePubKey)).map(g => g.capability);
+}
+
+/**
+ * Get the unexpired grants a host holds for a profile.
  */
-export async function getActiveCapabilities(host: string): Promise<Capability[]> {
+export async function getActiveGrants(
+  host: string,
+  profilePubKey: string
+): Promise<CapabilityGrant[]> {
   const perms = await readSitePermissions();
   const site = perms[host];
   if (!site) return [];
 
   const now = Math.floor(Date.now() / 1000);
   return site.grants
-    .filter(g => g.expires_at === null || g.expires_at > now)
-    .map(g => g.capability);
+    .filter(g => g.profilePubKey === profilePubKey)
+    .filter(g => g.expires_at === null || g.expires_at > now);
+}
+
+/**
+ * Add a quota to a host.
+ */
+export async function addSiteQuota(
+  host: string,
+  quota: Omit<SiteQuota, 'id' | 'usage'>
+): Promise<void> {
+  const perms = await readSitePermissions();
+  const site = perms[host];
+  if (!site) return;
+  site.quotas = [...(site.quotas || []), { ...quota, id: Math.random().toString(36).slice(2), usage: [] }];
+  await writeSitePermissions(perms);
+}
+
+/**
+ * Remove a quota from a host.
+ */
+export async function removeSiteQuota(host: string, quotaId: string): Promise<void> {
+  const perms = await readSitePermissions();
+  const site = perms[host];
+  if (!site?.quotas) return;
+  site.quotas = site.quotas.filter(q => q.id !== quotaId);
+  await writeSitePermissions(perms);
+}
+
+/**
+ * How many units of a quota a request uses: one per matching event for signing, else one.
+ */
+function quotaCost(quota: SiteQuota, capability: Capability, eventKinds: number[]): number {
+  if (quota.capability !== capability) return 0;
+  if (quota.kinds.length === 0) return Math.max(eventKinds.length, 1);
+  return eventKinds.filter(kind => quota.kinds.includes(kind)).length;
+}
+
+/**
+ * Find a quota of the host that has no room left for a request.
+ * @param eventKinds - Kinds of the events to sign; empty for other capabilities
+ */
+export async function findExhaustedQuota(
+  host: string,
+  capability: Capability,
+  eventKinds: number[]
+): Promise<SiteQuota | null> {
+  const site = (await readSitePermissions())[host];
+  const now = Math.floor(Date.now() / 1000);
+  return site?.quotas?.find(quota => {
+    const cost = quotaCost(quota, capability, eventKinds);
+    const used = quota.usage.filter(ts => now - ts < quota.windowSeconds).length;
+    return cost > 0 && used + cost > quota.limit;
+  }) ?? null;
+}
+
+/**
+ * Count an auto-approved request against the host's quotas, dropping usage older than each window.
+ */
+export async function recordQuotaUsage(
+  host: string,
+  capability: Capability,
+  eventKinds: number[]
+): Promise<void> {
+  const perms = await readSitePermissions();
+  const site = perms[host];
+  if (!site?.quotas?.length) return;
+  const now = Math.floor(Date.now() / 1000);
+  for (const quota of site.quotas) {
+    const cost = quotaCost(quota, capability, eventKinds);
+    if (cost === 0) continue;
+    quota.usage = [...quota.usage.filter(ts => now - ts < quota.windowSeconds), ...Array(cost).fill(now)];
+  }
+  await writeSitePermissions(perms);
 }
 
 //#endregion Site Permissions <<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<
@@ -1249,10 +1522,159 @@ export async function updateSecurityPreference<K extends keyof SecurityPreferenc
   await writeSecurityPreferences(prefs);
 }
 
+/**
+ * Get the anti-spam limits for a host: the global ones with the host's overrides applied.
+ */
+export async function getAntiSpamLimits(host: string): Promise<AntiSpamLimits> {
+  const prefs = await readSecurityPreferences();
+  return {
+    rateLimitMax: prefs.rateLimitMax,
+    rateLimitWindowMs: prefs.rateLimitWindowMs,
+    promptQueueCap: prefs.promptQueueCap,
+    rejectionCooldownMs: prefs.rejectionCooldownMs,
+    dedupTtlMs: prefs.dedupTtlMs,
+    ...prefs.antiSpamOverrides[host],
+  };
+}
+
+/**
+ * Set or remove the anti-spam overrides of a host.
+ */
+export async function setAntiSpamOverride(host: string, limits: Partial<AntiSpamLimits> | null): Promise<void> {
+  const prefs = await readSecurityPreferences();
+  const overrides = { ...prefs.antiSpamOverrides };
+  if (limits) {
+    overrides[host] = limits;
+  } else {
+    delete overrides[host];
+  }
+  await updateSecurityPreference('antiSpamOverrides', overrides);
+}
+
+/**
+ * Read the running rejection cooldowns (host -> end as ms timestamp) — persisted so they survive restarts.
+ */
+export async function readRejectionCooldowns(): Promise<Record<string, number>> {
+  const data = await browser.storage.local.get(ConfigurationKeys.REJECTION_COOLDOWNS);
+  const cooldowns = (data[ConfigurationKeys.REJECTION_COOLDOWNS] as Record<string, number>) ?? {};
+  const now = Date.now();
+  return Object.fromEntries(Object.entries(cooldowns).filter(([, until]) => until > now));
+}
+
+/**
+ * Start a rejection cooldown for a host, or end it early when until is null.
+ */
+export async function setRejectionCooldown(host: string, until: number | null): Promise<void> {
+  const cooldowns = await readRejectionCooldowns();
+  if (until === null) {
+    delete cooldowns[host];
+  } else {
+    cooldowns[host] = until;
+  }
+  await browser.storage.local.set({
+    [ConfigurationKeys.REJECTION_COOLDOWNS]: cooldowns,
+  });
+}
+
 //#endregion Security Preferences <<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<
 
+//#region Policy Rules >>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>
+
+/**
+ * Read the ordered policy rule list.
+ */
+export async function readPolicyRules(): Promise<PolicyRule[]> {
+  const data = await browser.storage.local.get(ConfigurationKeys.POLICY_RULES);
+  const rules = data[ConfigurationKeys.POLICY_RULES];
+  return Array.isArray(rules) ? (rules as PolicyRule[]) : [];
+}
+
+/**
+ * Write the policy rule list. Order is evaluation order.
+ */
+export async function writePolicyRules(rules: PolicyRule[]): Promise<void> {
+  await browser.storage.local.set({
+    [ConfigurationKeys.POLICY_RULES]: rules,
+  });
+}
+
+//#endregion Policy Rules <<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<<
+
 //#region Legacy Permission Migration >>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>>
 
+/**
+ * Re-key relay auth grants, session tokens and profile relay lists by normalized relay URL.
+ * Entries stored before normalization existed would otherwise never match again.
+ */
+export async function migrateRelayUrls(): Promise<boolean> {
+  let migrated = false;
+
+  const grants = await readRelayAuthGrants();
+  const normalizedGrants: RelayAuthGrants = {};
+  for (const grant of Object.values(grants)) {
+    const relayUrl = normalizeRelayUrl(grant.relayUrl);
+    if (relayUrl !== grant.relayUrl) migrated = true;
+    normalizedGrants[relayUrl] = { ...grant, relayUrl };
+  }
+
+  const tokens = await readSessionTokens();
+  const normalizedTokens: SessionTokenStore = {};
+  for (const [key, entry] of Object.entries(tokens)) {
+    const normalizedKey = tokenKey(entry.relayUrl, entry.origin);
+    if (normalizedKey !== key) migrated = true;
+    normalizedTokens[normalizedKey] = { ...entry, relayUrl: normalizeRelayUrl(entry.relayUrl) };
+  }
+
+  const profiles = await readProfiles();
+  let profilesChanged = false;
+  for (const pubKey in profiles) {
+    const relays = profiles[pubKey].relays;
+    if (!relays) continue;
+    const normalizedRelays = normalizeRelaysConfig(relays);
+    if (JSON.stringify(normalizedRelays) !== JSON.stringify(relays)) {
+      profiles[pubKey].relays = normalizedRelays;
+      profilesChanged = true;
+    }
+  }
+
+  if (migrated) {
+    await browser.storage.local.set({
+      [ConfigurationKeys.RELAY_AUTH_GRANTS]: normalizedGrants,
+      [ConfigurationKeys.SESSION_TOKENS]: normalizedTokens
+    });
+  }
+  if (profilesChanged) {
+    await browser.storage.local.set({ [ConfigurationKeys.PROFILES]: profiles });
+  }
+  if (migrated || profilesChanged) {
+    console.log('[Migration] Relay URLs normalized.');
+  }
+
+  return migrated || profilesChanged;
+}
+
+/**
+ * Scope site grants stored before grants were per profile.
+ * Which profile such a grant was given for is unknown, so it is kept for the
+ * active profile only; other profiles have to be granted again.
+ */
+export async function migrateSitePermissionProfiles(): Promise<boolean> {
+  const perms = await readSitePermissions();
+  const unscoped = Object.values(perms).some(site => site.grants.some(g => !g.profilePubKey));
+  if (!unscoped) return false;
+
+  const profiles = await readProfiles();
+  const owner = (await getActivePublicKey()) || Object.keys(profiles)[0];
+  for (const host in perms) {
+    perms[host].grants = owner
+      ? perms[host].grants.map(g => (g.profilePubKey ? g : { ...g, profilePubKey: owner }))
+      : perms[host].grants.filter(g => g.profilePubKey);
+  }
+  await writeSitePermissions(perms);
+  console.log('[Migration] Site grants scoped to profile', owner);
+  return true;
+}
+
 /**
  * Migrate old numeric-level permissions to the new granular model.
  * Called once on startup if old permissions exist.
@@ -1284,7 +1706,7 @@ export async function migrateOldPermissions(): Promise<boolean> {
 
       // Create grants
       for (const cap of capabilities) {
-        await addGrant(host, cap, duration);
+        await addGrant(host, cap, duration, pubKey);
       }
 
       migrated = true;
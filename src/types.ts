@@ -84,6 +84,15 @@ export function getKindRisk(kind: number): KindRiskTier {
   return 'medium';
 }
 
+const RISK_ORDER: KindRiskTier[] = ['low', 'medium', 'high', 'critical'];
+
+/** Get the highest risk tier among several kinds, e.g. the events of a batch */
+export function getHighestKindRisk(kinds: number[]): KindRiskTier {
+  return kinds
+    .map(getKindRisk)
+    .reduce((max, risk) => (RISK_ORDER.indexOf(risk) > RISK_ORDER.indexOf(max) ? risk : max), 'low');
+}
+
 /** Get human-readable name for a kind */
 export function getKindName(kind: number): string {
   if (KIND_NAMES[kind]) return KIND_NAMES[kind];
@@ -147,6 +156,8 @@ export enum PermissionDuration {
 export type CapabilityGrant = {
   /** Which capability is granted */
   capability: Capability;
+  /** Public key of the profile the grant was given for — only honored while that profile is active */
+  profilePubKey: string;
   /** When this grant was created (unix seconds) */
   granted_at: number;
   /** When this grant expires (unix seconds), or null for forever */
@@ -155,6 +166,22 @@ export type CapabilityGrant = {
   duration: PermissionDuration;
   /** For signEvent: optional allowlist of event kinds. Empty = all kinds allowed */
   allowedKinds?: number[];
+  /** For signEvent: content checks an event must pass to be signed under this grant */
+  constraints?: SigningConstraints;
+};
+
+/** Content constraints on a signEvent grant. Events that fail any of them are prompted for instead */
+export type SigningConstraints = {
+  /** Longest allowed event content, in characters */
+  maxContentLength?: number;
+  /** Tag names the event must carry */
+  requiredTags?: string[];
+  /** Tag names the event must not carry */
+  forbiddenTags?: string[];
+  /** Per tag name, a regular expression every value of that tag must match in full, e.g. { p: 'pk1|pk2' } */
+  tagValuePatterns?: Record<string, string>;
+  /** Largest allowed difference between created_at and now, in seconds */
+  maxCreatedAtSkew?: number;
 };
 
 /** Per-host permission record — replaces the old numeric level system */
@@ -169,8 +196,29 @@ export type SitePermission = {
   request_count: number;
   /** Total number of requests that were denied */
   denied_count: number;
-  /** Individual capability grants */
+  /** Individual capability grants, for every profile */
   grants: CapabilityGrant[];
+  /** Profile this host always uses, whatever the active profile is */
+  boundProfilePubKey?: string;
+  /** Limits on how many requests are approved without a prompt */
+  quotas?: SiteQuota[];
+};
+
+/**
+ * Per-host cap on auto-approved requests, e.g. 50 signed events per day.
+ * Once used up, requests covered by it are prompted for until the window frees up.
+ */
+export type SiteQuota = {
+  id: string;
+  capability: Capability;
+  /** For signEvent: the event kinds it counts. Empty = all kinds */
+  kinds: number[];
+  /** Auto-approved requests allowed per window */
+  limit: number;
+  /** Length of the sliding window, in seconds */
+  windowSeconds: number;
+  /** When each auto-approved request inside the window was made (unix seconds) */
+  usage: number[];
 };
 
 /** Map of host -> SitePermission */
@@ -188,10 +236,16 @@ export type AuditDisposition =
   | 'rejected'       // user explicitly rejected
   | 'auto-approved'  // approved by existing grant (no prompt)
   | 'relay-auth'     // auto-approved relay auth (per-relay grant)
+  | 'policy-approved' // auto-approved by a policy rule
+  | 'policy-rejected' // rejected by a policy rule
   | 'rate-limited'   // anti-spam blocked
   | 'cooldown'       // post-rejection cooldown
   | 'queue-full'     // too many pending prompts
+  | 'unauthorized'   // message type not allowed from this sender
   | 'deduped'        // duplicate request coalesced
+  | 'pin-unlocked'   // PIN (or lockout reset key) accepted
+  | 'pin-failed'     // wrong PIN entered
+  | 'pin-locked'     // too many wrong PINs — PIN entry locked out
   | 'error';         // processing error
 
 /** A single audit log entry — persisted to storage */
@@ -222,6 +276,22 @@ export type AuditLogEntry = {
   profilePubKey?: string;
   /** Duration of the grant if permission was given */
   grantDuration?: PermissionDuration;
+  /** For signEvent: length of the event content */
+  contentLength?: number;
+  /** Name of the policy rule that decided this request, if any */
+  ruleName?: string;
+  /** Set when a used-up site quota turned an auto-approval into a prompt */
+  quotaExceeded?: boolean;
+  /** For signEvents: one entry per event in the batch */
+  batch?: BatchEventAudit[];
+};
+
+/** Audit details of one event in a signEvents batch */
+export type BatchEventAudit = {
+  eventKind: number;
+  eventKindName: string;
+  riskTier: KindRiskTier;
+  contentLength: number;
 };
 
 //#endregion Audit Log -------------------------------------------------------
@@ -233,6 +303,7 @@ export enum ConfigurationKeys {
   PROFILES = 'profiles',
   OPEN_PROMPTS = 'open_prompts',
   PIN_ENABLED = 'pin_enabled',
+  /** @deprecated — encrypted keys live in each profile; only read by the migration */
   ENCRYPTED_PRIVATE_KEY = 'encrypted_private_key',
   ACTIVE_PUBLIC_KEY = 'active_public_key',
   PIN_CACHE_DURATION = 'pin_cache_duration',
@@ -242,6 +313,10 @@ export enum ConfigurationKeys {
   SITE_PERMISSIONS = 'site_permissions',
   AUDIT_LOG = 'audit_log',
   SECURITY_PREFERENCES = 'security_preferences',
+  POLICY_RULES = 'policy_rules',
+  PIN_ATTEMPTS = 'pin_attempts',
+  PASSKEY_UNLOCK = 'passkey_unlock',
+  REJECTION_COOLDOWNS = 'rejection_cooldowns',
 }
 
 //#endregion Configuration Keys ----------------------------------------------
@@ -258,6 +333,57 @@ export type SecurityPreferences = {
   maxAuditLogEntries: number;
   /** Default permission duration for new grants */
   defaultDuration: PermissionDuration;
+  /** Failed PIN attempts after which PIN entry is locked until a private key is entered. 0 = never */
+  pinLockoutThreshold: number;
+  /** Minutes of system inactivity after which cached PINs are cleared. 0 = never */
+  lockOnIdleMinutes: number;
+  /** Clear cached PINs when the screen locks */
+  lockOnScreenLock: boolean;
+  /** Clear cached PINs when the last browser window closes */
+  lockOnAllWindowsClosed: boolean;
+  /** Restart the PIN cache duration each time the cached PIN is used */
+  renewPinCacheOnUse: boolean;
+  /** Prompting requests allowed from a host per rate-limit window */
+  rateLimitMax: number;
+  /** Length of the rate-limit window, in milliseconds */
+  rateLimitWindowMs: number;
+  /** Prompts that may be open at once, across all hosts, before a host's requests are blocked */
+  promptQueueCap: number;
+  /** How long a host is blocked after a rejected prompt, in milliseconds. 0 = never */
+  rejectionCooldownMs: number;
+  /** How long identical pending requests are coalesced, in milliseconds */
+  dedupTtlMs: number;
+  /** Per-host anti-spam limits that replace the ones above */
+  antiSpamOverrides: Record<string, Partial<AntiSpamLimits>>;
+  /** Zap requests above this amount, in sats, get a warning in the prompt */
+  zapWarningThresholdSats: number;
+  /** Log NIP-07 requests and their results to the web page's console, and signer events to the background console */
+  debugLogging: boolean;
+};
+
+/** Anti-spam limits that can be overridden for a single host */
+export type AntiSpamLimits = Pick<
+  SecurityPreferences,
+  'rateLimitMax' | 'rateLimitWindowMs' | 'promptQueueCap' | 'rejectionCooldownMs' | 'dedupTtlMs'
+>;
+
+/** The limits a host override may set */
+export const ANTI_SPAM_LIMIT_KEYS: (keyof AntiSpamLimits)[] = [
+  'rateLimitMax',
+  'rateLimitWindowMs',
+  'promptQueueCap',
+  'rejectionCooldownMs',
+  'dedupTtlMs',
+];
+
+/** Current anti-spam state of a host, as shown in Options */
+export type AntiSpamHostState = {
+  host: string;
+  /** Requests counted in the current rate-limit window */
+  recentRequests: number;
+  rateLimitMax: number;
+  /** End of the rejection cooldown (ms timestamp), if one is running */
+  cooldownUntil: number | null;
 };
 
 export const DEFAULT_SECURITY_PREFERENCES: SecurityPreferences = {
@@ -265,10 +391,61 @@ export const DEFAULT_SECURITY_PREFERENCES: SecurityPreferences = {
   showEventPreview: true,
   maxAuditLogEntries: 500,
   defaultDuration: PermissionDuration.ONCE,
+  pinLockoutThreshold: 0,
+  lockOnIdleMinutes: 0,
+  lockOnScreenLock: false,
+  lockOnAllWindowsClosed: false,
+  renewPinCacheOnUse: false,
+  rateLimitMax: 10,
+  rateLimitWindowMs: 5000,
+  promptQueueCap: 25,
+  rejectionCooldownMs: 30000,
+  dedupTtlMs: 30000,
+  antiSpamOverrides: {},
+  zapWarningThresholdSats: 10000,
+  debugLogging: false,
 };
 
 //#endregion Security Preferences --------------------------------------------
 
+//#region Policy Rules -------------------------------------------------------
+
+/** What a matching policy rule does with a request */
+export type PolicyRuleAction = 'approve' | 'prompt' | 'reject';
+
+/**
+ * A user-defined auto-approval rule. Rules are evaluated in order before any
+ * grant is consulted; the first enabled rule whose conditions all match wins.
+ */
+export type PolicyRule = {
+  /** Unique identifier */
+  id: string;
+  /** Name shown in the editor and in audit entries */
+  name: string;
+  /** Disabled rules are skipped */
+  enabled: boolean;
+  /** "*" for any host, "*.example.com" for example.com and its subdomains, or an exact host */
+  hostPattern: string;
+  /** Capabilities this rule applies to. Empty = all capabilities */
+  capabilities: Capability[];
+  /** For signEvent: event kinds this rule applies to. Empty = all kinds */
+  kinds: number[];
+  /** For signEvent: only match events whose content is shorter than this */
+  maxContentLength?: number;
+  /** What to do with a matching request */
+  action: PolicyRuleAction;
+};
+
+/** The facts about a request that policy rules are matched against */
+export type PolicyRequest = {
+  host: string;
+  capability: Capability;
+  kind?: number;
+  contentLength?: number;
+};
+
+//#endregion Policy Rules ----------------------------------------------------
+
 //#region Profile Configuration ----------------------------------------------
 
 export type RelaysConfig = {
@@ -284,10 +461,23 @@ export type PermissionConfig = {
   };
 };
 
+/** NIP-46 remote signer (bunker) that holds the key for a profile */
+export type RemoteSignerConfig = {
+  /** bunker:// URI of the remote signer, without the one-time connect secret */
+  bunkerUri: string;
+  /** Hex secret of the local client keypair used for kind:24133 messages */
+  clientSecretKey: string;
+};
+
 export type ProfileConfig = {
+  /** Local private key — empty when the profile is backed by a remote signer */
   privateKey: string;
   name?: string;
   relays?: RelaysConfig;
+  /** When set, signing and encryption are forwarded to this remote signer */
+  remoteSigner?: RemoteSignerConfig;
+  /** The key is encrypted with this profile's own PIN or passphrase instead of the shared PIN */
+  ownPin?: boolean;
   /** @deprecated — use SitePermissions in top-level storage instead */
   permissions?: PermissionConfig;
 };
@@ -312,13 +502,15 @@ export type PromptDecision = {
   allowedKinds?: number[];
   /** Remember this decision for the host */
   remember: boolean;
+  /** For kind:22242: also trust the relay in the event's `relay` tag for this duration */
+  trustRelay?: boolean;
+  /** Always use the prompt's profile for this host from now on */
+  bindProfile?: boolean;
 };
 
 export type PromptResponse = {
   /** ID assigned to the prompt */
   id: string;
-  /** Indicates this is a prompt response message */
-  prompt: boolean;
   /** The user's decision */
   decision: PromptDecision;
   /** The originating host */
@@ -340,25 +532,94 @@ export type PromptParams = {
   plaintext?: string;
   ciphertext?: string;
   event?: Event;
+  /** For signEvents: the events to sign together */
+  events?: Event[];
+  /** For requestPermissions: what the app asks for up front */
+  permissions?: PermissionRequest;
+};
+
+/** Capabilities a web app asks for in one go with requestPermissions */
+export type PermissionRequest = {
+  capabilities: Capability[];
+  /** For signEvent: only these event kinds. Omitted = all kinds */
+  kinds?: number[];
+  /** Suggested grant duration — the user can pick another. Defaults to the session */
+  duration?: PermissionDuration;
+};
+
+/** A grant as reported back to the web app */
+export type GrantedPermission = Pick<CapabilityGrant, 'capability' | 'duration' | 'expires_at' | 'allowedKinds'>;
+
+/** What window.nostr.getInfo() reports about the signer and the calling site */
+export type SignerInfo = {
+  name: string;
+  version: string;
+  /** Optional window.nostr APIs, beyond getPublicKey, signEvent and getRelays */
+  apis: string[];
+  /** Capabilities the site holds for the profile it uses — requests for these do not prompt */
+  grants: Capability[];
+  /** The site's key is PIN-protected and the PIN is not cached: signing or decrypting asks for it */
+  locked: boolean;
 };
 
+/** Most events a single signEvents request may carry */
+export const MAX_BATCH_EVENTS = 50;
+
 export type ContentMessageArgs = {
   type: string;
   params: PromptParams;
   host: string;
 };
 
+/** Why a window.nostr request failed — stable, unlike the message, so web apps can act on it */
+export enum NostrErrorCode {
+  /** The user, or one of their policy rules, rejected the request */
+  USER_REJECTED = 'USER_REJECTED',
+  /** Too many requests from the site in the rate-limit window */
+  RATE_LIMITED = 'RATE_LIMITED',
+  /** The site is paused after the user rejected one of its requests */
+  COOLDOWN = 'COOLDOWN',
+  /** Too many prompts are already open */
+  QUEUE_FULL = 'QUEUE_FULL',
+  /** The key is PIN-protected and the PIN was not entered */
+  LOCKED = 'LOCKED',
+  /** There is no profile or key to answer with */
+  NO_KEY = 'NO_KEY',
+  /** The event names a different pubkey than the profile signing it */
+  PUBKEY_MISMATCH = 'PUBKEY_MISMATCH',
+  /** The event is missing, malformed or failed validation after signing */
+  INVALID_EVENT = 'INVALID_EVENT',
+  /** No answer in time, from the extension or from a remote signer */
+  TIMEOUT = 'TIMEOUT',
+  /** Anything else that went wrong while answering the request */
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
 export type ContentScriptMessageResponseError = {
   error: {
     message: string;
-    stack?: any;
+    /** Set for the failures a web app may want to handle */
+    code?: NostrErrorCode;
   };
 };
 export type ContentScriptMessageResponse =
   | ContentScriptMessageResponseError
   | string
   | VerifiedEvent
-  | RelaysConfig;
+  | VerifiedEvent[]
+  | RelaysConfig
+  | Capability[]
+  | GrantedPermission[]
+  | SignerInfo;
+
+/** Sent from the background to every content script when the profile used by some hosts changes */
+export type ProfileChangedMessage = {
+  type: 'profileChanged';
+  /** Only these hosts are affected. Omitted = every host */
+  hosts?: string[];
+  /** Hosts that are not affected because they are bound to a profile */
+  excludedHosts?: string[];
+};
 
 export type OpenPromptItem = {
   id: string;
@@ -367,6 +628,10 @@ export type OpenPromptItem = {
   /** The capability being requested */
   capability: Capability;
   params: PromptParams;
+  /** Public key of the profile the request would be signed with */
+  profilePubKey?: string;
+  /** Whether the host is bound to that profile */
+  profileBound?: boolean;
   /** Site trust info passed to the prompt UI */
   siteInfo?: {
     first_seen: number;
@@ -385,15 +650,42 @@ export type OpenPromptItem = {
 //#region PIN Types ----------------------------------------------------------
 
 export type PinMessage = {
-  type: 'setupPin' | 'verifyPin' | 'disablePin';
+  type: 'setupPin' | 'verifyPin' | 'disablePin' | 'unlockWithKey' | 'unlockWithPasskey';
   pin?: string;
-  encryptedKey?: string;
+  /** For unlockWithKey: a profile's private key (hex or nsec) */
+  privateKey?: string;
+  /** For unlockWithPasskey: the authenticator's PRF output (hex) */
+  prfOutput?: string;
   id?: string;
 };
 
 export type PinMessageResponse = {
   success: boolean;
   error?: string;
+  /** When PIN entry is allowed again (unix ms) */
+  retryAt?: number | null;
+  /** PIN entry is locked until a private key is entered */
+  lockedOut?: boolean;
+};
+
+/** Persisted failed PIN attempt tracking */
+export type PinAttemptState = {
+  /** Consecutive failed attempts */
+  failures: number;
+  /** No PIN is checked before this time (unix ms), or null */
+  retryAt: number | null;
+  /** The lockout threshold was reached */
+  lockedOut: boolean;
+};
+
+/** Passkey that unlocks the shared PIN through the WebAuthn PRF extension */
+export type PasskeyUnlock = {
+  /** WebAuthn credential ID (hex) */
+  credentialId: string;
+  /** PRF input the authenticator evaluates (hex) */
+  prfSalt: string;
+  /** The shared PIN, encrypted with key material from the PRF output */
+  encryptedPin: string;
 };
 
 //#endregion PIN Types -------------------------------------------------------
@@ -428,7 +720,7 @@ export type ClientIdStore = {
 
 /** A per-relay auth grant — allows auto-signing kind:22242 for trusted relays */
 export type RelayAuthGrant = {
-  /** The relay URL pattern (e.g. "wss://relay.example.com") */
+  /** Normalized relay URL, or a wildcard pattern (e.g. "wss://relay.example.com", "wss://*.example.com") */
   relayUrl: string;
   /** When this grant was created (unix seconds) */
   grantedAt: number;
@@ -444,3 +736,41 @@ export type RelayAuthGrants = {
 };
 
 //#endregion Session Token Types --------------------------------------------
+
+//#region Backup Types -------------------------------------------------------
+
+/** Identifies backup files written by this extension */
+export const BACKUP_FORMAT = 'ribbit-signer-backup';
+
+/** Current backup format version — bump when the payload shape changes */
+export const BACKUP_VERSION = 1;
+
+/** How a backup is applied: merge keeps existing entries on conflict, replace discards them */
+export type BackupRestoreMode = 'merge' | 'replace';
+
+/** Decrypted backup contents — the complete signer state */
+export type SignerBackup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** When the backup was created (unix seconds) */
+  createdAt: number;
+  /** Whether profile private keys in this backup are PIN-encrypted */
+  pinEnabled: boolean;
+  activePublicKey: string | null;
+  profiles: ProfilesConfig;
+  sitePermissions: SitePermissions;
+  relayAuthGrants: RelayAuthGrants;
+  securityPreferences: SecurityPreferences;
+  clientIds: ClientIdStore;
+  policyRules: PolicyRule[];
+};
+
+/** Backup file as written to disk — only the envelope is readable without the passphrase */
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** JSON-encoded EncryptedData holding the SignerBackup */
+  encrypted: string;
+};
+
+//#endregion Backup Types ----------------------------------------------------
@@ -0,0 +1,151 @@
+/**
+ * Zap request inspection (NIP-57, kind 9734)
+ * Decodes what a zap request pays, to whom and through which LNURL server, so
+ * the prompt can show it and warn about suspicious combinations.
+ */
+
+import { bech32 } from '@scure/base';
+import { SimplePool } from 'nostr-tools/pool';
+
+const LNURL_MAX_LENGTH = 2000;
+const METADATA_LOOKUP_TIMEOUT_MS = 4000;
+
+/** What a zap request says, decoded */
+export type ZapRequestInfo = {
+  /** Amount in sats, null when the request has no (valid) amount tag */
+  amountSats: number | null;
+  /** Recipient public keys (`p` tags) — a valid request has exactly one */
+  recipients: string[];
+  /** Zapped event id (`e` tag) */
+  eventId: string | null;
+  /** Zapped addressable event (`a` tag) */
+  address: string | null;
+  /** The raw `lnurl` tag */
+  lnurl: string | null;
+  /** The URL it decodes to, null if missing or undecodable */
+  lnurlUrl: string | null;
+  /** Host of that URL */
+  lnurlDomain: string | null;
+  /** Relays the zap receipt should be published to */
+  relays: string[];
+  /** Zap comment */
+  comment: string;
+  /** Problems that can be seen from the request alone */
+  warnings: string[];
+};
+
+/**
+ * Decodes a bech32 `lnurl1…` string to the URL it encodes
+ * @returns The URL, or null if the string is not a valid LNURL
+ */
+export function decodeLnurl(lnurl: string): string | null {
+  try {
+    const { prefix, words } = bech32.decode(lnurl.toLowerCase() as `${string}1${string}`, LNURL_MAX_LENGTH);
+    if (prefix !== 'lnurl') return null;
+    return new TextDecoder().decode(bech32.fromWords(words));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the domain that receives payments for a profile, from its kind 0 metadata
+ * @param content - The metadata event content (JSON)
+ * @returns The lud16 lightning address domain, or the host of the lud06 LNURL
+ */
+export function getLightningDomain(content: string): string | null {
+  try {
+    const metadata = JSON.parse(content);
+    if (typeof metadata.lud16 === 'string' && metadata.lud16.includes('@')) {
+      return metadata.lud16.split('@')[1].trim().toLowerCase() || null;
+    }
+    if (typeof metadata.lud06 === 'string') {
+      const url = decodeLnurl(metadata.lud06.trim());
+      return url ? new URL(url).host.toLowerCase() : null;
+    }
+  } catch {
+    // Not JSON, or an invalid URL — no known domain
+  }
+  return null;
+}
+
+/**
+ * Decodes a zap request and checks it for problems
+ * @param event - The kind 9734 event about to be signed
+ * @param warningThresholdSats - Amounts above this are flagged
+ */
+export function inspectZapRequest(
+  event: { content?: string; tags?: string[][] },
+  warningThresholdSats: number
+): ZapRequestInfo {
+  const tags = event.tags || [];
+  const tagValue = (name: string) => tags.find(t => t[0] === name)?.[1] ?? null;
+  const warnings: string[] = [];
+
+  const amountTag = tagValue('amount');
+  const amountMsats = amountTag !== null && /^\d+$/.test(amountTag) ? parseInt(amountTag, 10) : null;
+  const amountSats = amountMsats !== null ? Math.floor(amountMsats / 1000) : null;
+  if (amountTag === null) {
+    warnings.push('No amount: the wallet that pays decides how much is sent.');
+  } else if (amountSats === null) {
+    warnings.push(`The amount "${amountTag}" is not a number of millisats.`);
+  } else if (amountSats > warningThresholdSats) {
+    warnings.push(
+      `${amountSats.toLocaleString()} sats is above your warning threshold of ${warningThresholdSats.toLocaleString()} sats.`
+    );
+  }
+
+  const recipients = tags.filter(t => t[0] === 'p').map(t => t[1]);
+  if (recipients.length !== 1) {
+    warnings.push(`A zap request must name exactly one recipient; this one names ${recipients.length}.`);
+  }
+
+  const lnurl = tagValue('lnurl');
+  const lnurlUrl = lnurl ? decodeLnurl(lnurl) : null;
+  let lnurlDomain: string | null = null;
+  if (lnurl && !lnurlUrl) {
+    warnings.push('The lnurl tag could not be decoded.');
+  } else if (lnurlUrl) {
+    try {
+      const url = new URL(lnurlUrl);
+      lnurlDomain = url.host.toLowerCase();
+      if (url.protocol !== 'https:' && !url.hostname.endsWith('.onion')) {
+        warnings.push(`The LNURL server is not contacted over HTTPS (${url.protocol}).`);
+      }
+    } catch {
+      warnings.push('The lnurl tag does not decode to a URL.');
+    }
+  }
+
+  return {
+    amountSats,
+    recipients,
+    eventId: tagValue('e'),
+    address: tagValue('a'),
+    lnurl,
+    lnurlUrl,
+    lnurlDomain,
+    relays: tags.find(t => t[0] === 'relays')?.slice(1) ?? [],
+    comment: event.content ?? '',
+    warnings,
+  };
+}
+
+/**
+ * Looks up the recipient's lightning domain from their profile metadata
+ * Only the given relays are asked — never the ones named by the zap request,
+ * which the requesting site controls.
+ * @returns The domain, or null if no metadata with a lightning address was found
+ */
+export async function fetchRecipientLightningDomain(pubkey: string, relays: string[]): Promise<string | null> {
+  if (relays.length === 0) return null;
+  const pool = new SimplePool();
+  try {
+    const metadata = await pool.get(relays, { kinds: [0], authors: [pubkey] }, { maxWait: METADATA_LOOKUP_TIMEOUT_MS });
+    return metadata ? getLightningDomain(metadata.content) : null;
+  } catch {
+    return null;
+  } finally {
+    pool.close(relays);
+  }
+}
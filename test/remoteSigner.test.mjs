@@ -0,0 +1,131 @@
+/**
+ * Remote signer (NIP-46) flow against a local stand-in relay and bunker
+ * src/remoteSigner.ts is bundled with esbuild, with webextension-polyfill swapped
+ * for a stub, and driven through connect, sign, timeout and close.
+ */
+
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { build } from 'esbuild';
+import { verifyEvent } from 'nostr-tools';
+
+import { startRelay } from './stand-ins/relay.mjs';
+import { startBunker } from './stand-ins/bunker.mjs';
+
+const TIMEOUT_CODE = 'TIMEOUT';
+
+/**
+ * Bundles a source module into a temporary directory and imports it
+ */
+async function importSource(entry, outDir) {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL(entry, import.meta.url))],
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    write: false,
+    logLevel: 'silent',
+    alias: {
+      'webextension-polyfill': fileURLToPath(new URL('./stand-ins/browser.mjs', import.meta.url))
+    }
+  });
+  const file = join(outDir, 'remoteSigner.mjs');
+  await writeFile(file, result.outputFiles[0].contents);
+  return import(pathToFileURL(file).href);
+}
+
+/**
+ * Waits until check() holds, polling every few milliseconds
+ */
+async function waitFor(check, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Condition not met in time');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function unsignedNote(content) {
+  return { kind: 1, tags: [], content, created_at: Math.floor(Date.now() / 1000) };
+}
+
+describe('remote signer', () => {
+  let outDir;
+  let relay;
+  let bunker;
+  let remoteSigner;
+  /** Profile public key and stored config from the connect test */
+  let profile;
+
+  before(async () => {
+    outDir = await mkdtemp(join(tmpdir(), 'ribbit-signer-test-'));
+    remoteSigner = await importSource('../src/remoteSigner.ts', outDir);
+    relay = await startRelay();
+    bunker = await startBunker(relay.url);
+  });
+
+  after(async () => {
+    if (profile) await remoteSigner.closeRemoteSigner(profile.pubKey);
+    bunker?.close();
+    await relay?.close();
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it('connects with a bunker URI and keeps no connect secret', async () => {
+    profile = await remoteSigner.connectRemoteSigner(bunker.bunkerUri);
+
+    assert.equal(profile.pubKey, bunker.userPubKey);
+    assert.match(profile.config.clientSecretKey, /^[0-9a-f]{64}$/);
+    assert.ok(profile.config.bunkerUri.startsWith('bunker://'));
+    assert.ok(!profile.config.bunkerUri.includes('secret='));
+  });
+
+  it('signs an event as the remote user', async () => {
+    const signed = await remoteSigner.callRemoteSigner(profile.pubKey, profile.config, 'sign_event', signer =>
+      signer.signEvent(unsignedNote('hello from the test'))
+    );
+
+    assert.equal(signed.pubkey, bunker.userPubKey);
+    assert.equal(signed.content, 'hello from the test');
+    assert.ok(verifyEvent(signed));
+  });
+
+  it('times out when the bunker does not answer, then recovers', async () => {
+    bunker.silent = true;
+    await assert.rejects(
+      remoteSigner.callRemoteSigner(
+        profile.pubKey,
+        profile.config,
+        'sign_event',
+        signer => signer.signEvent(unsignedNote('never answered')),
+        300
+      ),
+      error => error.code === TIMEOUT_CODE
+    );
+
+    // The timed out signer was dropped; the next call re-opens it from the stored config
+    bunker.silent = false;
+    const signed = await remoteSigner.callRemoteSigner(profile.pubKey, profile.config, 'sign_event', signer =>
+      signer.signEvent(unsignedNote('after the timeout'))
+    );
+    assert.equal(signed.content, 'after the timeout');
+  });
+
+  it('closes its relay subscription and re-opens on the next call', async () => {
+    // The bunker's own subscription plus the signer's
+    await waitFor(() => relay.subscriptionCount() === 2);
+
+    await remoteSigner.closeRemoteSigner(profile.pubKey);
+    await waitFor(() => relay.subscriptionCount() === 1);
+
+    const result = await remoteSigner.callRemoteSigner(profile.pubKey, profile.config, 'ping', signer =>
+      signer.ping()
+    );
+    assert.equal(result, undefined);
+    await waitFor(() => relay.subscriptionCount() === 2);
+  });
+});
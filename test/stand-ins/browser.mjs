@@ -0,0 +1,10 @@
+/**
+ * Stand-in for webextension-polyfill outside the browser
+ * Only what the modules under test touch.
+ */
+
+export default {
+  tabs: {
+    create: async () => ({})
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Stand-in NIP-46 remote signer (bunker) for tests
+ * Answers connect, get_public_key, sign_event and ping over a relay, signing with
+ * its own user key. Set `silent` to have it ignore requests, to test timeouts.
+ */
+
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools';
+import { Relay } from 'nostr-tools/relay';
+import { decrypt, encrypt, getConversationKey } from 'nostr-tools/nip44';
+import { toBunkerURL } from 'nostr-tools/nip46';
+
+const NOSTR_CONNECT_KIND = 24133;
+
+/**
+ * Connects a bunker to a relay
+ * @param relayUrl - The relay both the bunker and its clients use
+ * @returns The bunker URI to connect with, the public key it signs as, and close()
+ */
+export async function startBunker(relayUrl) {
+  const bunkerSecretKey = generateSecretKey();
+  const bunkerPubKey = getPublicKey(bunkerSecretKey);
+  const userSecretKey = generateSecretKey();
+  // Single-use, as a real bunker's connect secret
+  let secret = Math.random().toString(36).slice(2);
+
+  const relay = await Relay.connect(relayUrl);
+  const bunker = {
+    bunkerUri: toBunkerURL({ pubkey: bunkerPubKey, relays: [relayUrl], secret }),
+    userPubKey: getPublicKey(userSecretKey),
+    /** Ignore every request while set */
+    silent: false,
+    close() {
+      subscription.close();
+      relay.close();
+    }
+  };
+
+  function handle(method, params) {
+    switch (method) {
+      case 'connect':
+        if (params[0] !== bunkerPubKey || !secret || params[1] !== secret) {
+          return { error: 'invalid connect secret' };
+        }
+        secret = null;
+        return { result: 'ack' };
+      case 'get_public_key':
+        return { result: bunker.userPubKey };
+      case 'sign_event':
+        return { result: JSON.stringify(finalizeEvent(JSON.parse(params[0]), userSecretKey)) };
+      case 'ping':
+        return { result: 'pong' };
+      default:
+        return { error: `unsupported method ${method}` };
+    }
+  }
+
+  const subscription = relay.subscribe([{ kinds: [NOSTR_CONNECT_KIND], '#p': [bunkerPubKey] }], {
+    onevent: async event => {
+      if (bunker.silent) return;
+      const conversationKey = getConversationKey(bunkerSecretKey, event.pubkey);
+      const { id, method, params } = JSON.parse(decrypt(event.content, conversationKey));
+      const reply = finalizeEvent(
+        {
+          kind: NOSTR_CONNECT_KIND,
+          tags: [['p', event.pubkey]],
+          content: encrypt(JSON.stringify({ id, ...handle(method, params) }), conversationKey),
+          created_at: Math.floor(Date.now() / 1000)
+        },
+        bunkerSecretKey
+      );
+      await relay.publish(reply);
+    }
+  });
+
+  return bunker;
+}
@@ -0,0 +1,175 @@
+/**
+ * Stand-in Nostr relay for tests
+ * A WebSocket server on node:http that speaks just enough NIP-01 for NIP-46:
+ * EVENT, REQ and CLOSE, with events kept in memory. Text frames only.
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { matchFilters, verifyEvent } from 'nostr-tools';
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/**
+ * Encodes one unmasked frame, as a server sends them
+ */
+function encodeFrame(opcode, payload = Buffer.alloc(0)) {
+  let header;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Takes the first complete frame off a buffer
+ * @returns The frame and the bytes after it, or null if the frame is not complete yet
+ */
+function decodeFrame(buffer) {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+  const maskLength = masked ? 4 : 0;
+  if (buffer.length < offset + maskLength + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset + maskLength, offset + maskLength + length));
+  if (masked) {
+    const mask = buffer.subarray(offset, offset + 4);
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+  }
+  return { opcode, payload, rest: buffer.subarray(offset + maskLength + length) };
+}
+
+/**
+ * Starts a relay on a free local port
+ * @returns The relay's URL, a count of its open subscriptions, and close() to stop it
+ */
+export async function startRelay() {
+  const events = [];
+  /** Open connections, each with its subscriptions by ID */
+  const connections = new Set();
+
+  const server = createServer((req, res) => {
+    res.writeHead(426).end();
+  });
+
+  server.on('upgrade', (req, socket) => {
+    const accept = createHash('sha1')
+      .update(req.headers['sec-websocket-key'] + WEBSOCKET_GUID)
+      .digest('base64');
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        ''
+      ].join('\r\n')
+    );
+
+    const connection = { socket, subscriptions: new Map() };
+    connections.add(connection);
+    const send = message => socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let frame;
+      while ((frame = decodeFrame(buffer))) {
+        buffer = frame.rest;
+        if (frame.opcode === OPCODE_TEXT) {
+          handleMessage(connection, send, frame.payload.toString('utf8'));
+        } else if (frame.opcode === OPCODE_PING) {
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+        } else if (frame.opcode === OPCODE_CLOSE) {
+          socket.end(encodeFrame(OPCODE_CLOSE));
+        }
+      }
+    });
+    socket.on('close', () => connections.delete(connection));
+    socket.on('error', () => connections.delete(connection));
+  });
+
+  function handleMessage(connection, send, text) {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch (error) {
+      send(['NOTICE', 'invalid JSON']);
+      return;
+    }
+    const [type, ...args] = message;
+
+    if (type === 'EVENT') {
+      const [event] = args;
+      if (!verifyEvent(event)) {
+        send(['OK', event?.id, false, 'invalid: bad signature']);
+        return;
+      }
+      events.push(event);
+      send(['OK', event.id, true, '']);
+      for (const { subscriptions, socket } of connections) {
+        for (const [subId, filters] of subscriptions) {
+          if (matchFilters(filters, event)) {
+            socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(['EVENT', subId, event]))));
+          }
+        }
+      }
+    } else if (type === 'REQ') {
+      const [subId, ...filters] = args;
+      connection.subscriptions.set(subId, filters);
+      for (const event of events) {
+        if (matchFilters(filters, event)) send(['EVENT', subId, event]);
+      }
+      send(['EOSE', subId]);
+    } else if (type === 'CLOSE') {
+      connection.subscriptions.delete(args[0]);
+    }
+  }
+
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  return {
+    url: `ws://127.0.0.1:${port}`,
+    /** Subscriptions currently open, over all connections */
+    subscriptionCount() {
+      let count = 0;
+      for (const { subscriptions } of connections) count += subscriptions.size;
+      return count;
+    },
+    /** Drops every connection and stops listening */
+    close() {
+      for (const { socket } of connections) socket.destroy();
+      connections.clear();
+      return new Promise(resolve => server.close(resolve));
+    }
+  };
+}